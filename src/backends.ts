@@ -0,0 +1,184 @@
+import { readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { parseProperties, parseYaml } from "./formats";
+import { flatten } from "./keys";
+import {
+  ConfigBackend,
+  ConfigClientError,
+  ConfigInvalidResponseError,
+  ConfigNotFoundError,
+  ConfigResponse,
+  FileConfigBackendOptions,
+  PropertySource,
+} from "./types";
+
+/**
+ * Config file extensions, highest priority first (.properties wins over YAML like in Spring Boot)
+ */
+const EXTENSIONS = ["properties", "yml", "yaml"];
+
+/**
+ * Profile activation keys of a YAML document (Spring Boot 2.4+ and legacy)
+ */
+const ACTIVATION_KEYS = ["spring.config.activate.on-profile", "spring.profiles"];
+
+/**
+ * Local directory backend (Spring Cloud Config `native` profile)
+ * Reads `application.yml`, `{app}.yml`, `{app}-{profile}.yml` and their `.properties` variants
+ * and orders them the way the server would.
+ */
+export class FileConfigBackend implements ConfigBackend {
+  private readonly directory: string;
+
+  constructor(options: FileConfigBackendOptions) {
+    this.directory = options.directory;
+  }
+
+  async environment(application: string, profiles: string[], label: string): Promise<ConfigResponse> {
+    const directory = this.directory.replace(/\{label\}/g, label);
+    const isDirectory = await stat(directory).then(
+      (stats) => stats.isDirectory(),
+      () => false
+    );
+
+    if (!isDirectory) {
+      throw new ConfigNotFoundError(`Config directory not found: ${directory}`, 404);
+    }
+
+    const propertySources: PropertySource[] = [];
+
+    for (const name of fileNames(application, profiles)) {
+      for (const extension of EXTENSIONS) {
+        const path = join(directory, `${name}.${extension}`);
+        const text = await this.read(path);
+        if (text !== null) {
+          propertySources.push(...this.parse(path, extension, text, profiles));
+        }
+      }
+    }
+
+    return { name: application, profiles: [...profiles], label, version: null, state: null, propertySources };
+  }
+
+  /**
+   * File reader
+   * @returns null if the file does not exist
+   */
+  private async read(path: string): Promise<string | null> {
+    try {
+      return await readFile(path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw new ConfigClientError(`Cannot read config file ${path}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Config file to property sources, highest priority first
+   * Later YAML documents win; documents activated for other profiles are skipped.
+   */
+  private parse(path: string, extension: string, text: string, profiles: string[]): PropertySource[] {
+    try {
+      if (extension === "properties") {
+        return [{ name: `file:${path}`, source: parseProperties(text) }];
+      }
+
+      const documents = parseYaml(text).map((document) => flatten(document));
+      return documents
+        .map((source, index) => ({
+          name: documents.length > 1 ? `file:${path} (document #${index})` : `file:${path}`,
+          source,
+        }))
+        .filter(({ source }) => Object.keys(source).length > 0 && isActive(source, profiles))
+        .reverse();
+    } catch (error) {
+      throw new ConfigInvalidResponseError(`Invalid config file ${path}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * In-memory backend (test fixtures)
+ * Sources are keyed by config file base name ('application', 'my-app', 'my-app-dev', ...)
+ * and ordered like files of a config repository.
+ * @example
+ * ```typescript
+ * const backend = new MemoryConfigBackend({
+ *   application: { 'server.port': 8080 },
+ *   'my-app-dev': { database: { host: 'localhost' } },
+ * });
+ * ```
+ */
+export class MemoryConfigBackend implements ConfigBackend {
+  private readonly sources = new Map<string, Record<string, unknown>>();
+  private revision = 0;
+
+  constructor(sources: Record<string, Record<string, unknown>> = {}) {
+    for (const [name, properties] of Object.entries(sources)) {
+      this.sources.set(name, flatten(properties));
+    }
+  }
+
+  /**
+   * Source setter (nested or flat properties)
+   * Every change bumps the version, so watchers see a new configuration.
+   */
+  set(name: string, properties: Record<string, unknown>): this {
+    this.sources.set(name, flatten(properties));
+    this.revision++;
+    return this;
+  }
+
+  /**
+   * Source remover
+   */
+  delete(name: string): this {
+    if (this.sources.delete(name)) this.revision++;
+    return this;
+  }
+
+  async environment(application: string, profiles: string[], label: string): Promise<ConfigResponse> {
+    const propertySources = fileNames(application, profiles)
+      .filter((name) => this.sources.has(name))
+      .map((name) => ({ name: `memory:${name}`, source: { ...this.sources.get(name) } }));
+
+    return {
+      name: application,
+      profiles: [...profiles],
+      label,
+      version: String(this.revision),
+      state: null,
+      propertySources,
+    };
+  }
+}
+
+/**
+ * Config file base names of an application, highest priority first
+ * Profile specific files win over plain ones, later profiles over earlier ones,
+ * and the application's own files over the shared 'application' files.
+ * ex) ('my-app', ['dev']) -> ['my-app-dev', 'application-dev', 'my-app', 'application']
+ */
+function fileNames(application: string, profiles: string[]): string[] {
+  const profiled = [...profiles]
+    .reverse()
+    .flatMap((profile) => [`${application}-${profile}`, `application-${profile}`]);
+  return [...new Set([...profiled, application, "application"])];
+}
+
+/**
+ * Whether a YAML document applies to the active profiles
+ * ex) 'dev,cloud' matches either profile, '!prod' matches when prod is not active
+ */
+function isActive(source: Record<string, unknown>, profiles: string[]): boolean {
+  const key = ACTIVATION_KEYS.find((activationKey) => activationKey in source);
+  if (!key) return true;
+
+  return String(source[key])
+    .split(",")
+    .map((expression) => expression.trim())
+    .filter((expression) => expression !== "")
+    .some((expression) =>
+      expression.startsWith("!") ? !profiles.includes(expression.slice(1)) : profiles.includes(expression)
+    );
+}
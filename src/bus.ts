@@ -0,0 +1,185 @@
+import type { Config } from "./config";
+import type { ConfigWatcher } from "./watcher";
+import { BusRefreshEvent, ConfigTarget, MonitorNotification, RefreshNotification } from "./types";
+
+/**
+ * Spring Cloud Bus refresh / Config Server /monitor notification listener
+ * Transport-agnostic: feed it parsed payloads (or raw bodies) from any HTTP handler, queue consumer or test.
+ *
+ * @example
+ * ```typescript
+ * const watcher = client.watch();
+ * const listener = new RefreshListener(watcher);
+ *
+ * app.post('/bus-refresh', async (req, res) => {
+ *   const refreshed = await listener.handle(req.body);
+ *   res.status(refreshed ? 200 : 204).end();
+ * });
+ * ```
+ */
+export class RefreshListener {
+  private readonly watcher: ConfigWatcher;
+  private running: Promise<Config> | null = null;
+  private queued: Promise<Config> | null = null;
+
+  constructor(watcher: ConfigWatcher) {
+    this.watcher = watcher;
+  }
+
+  /**
+   * Notification handler
+   * Reloads the watched config when the notification targets this client.
+   * @param notification - Bus event, monitor payload, or their raw (JSON / form encoded) body
+   * @returns true if a refresh was triggered
+   */
+  async handle(notification: RefreshNotification | string): Promise<boolean> {
+    const parsed = this.parse(notification);
+    if (parsed === null) return false;
+
+    const destinations = this.destinationsOf(parsed);
+
+    if (!destinations.some((destination) => this.matches(destination))) {
+      return false;
+    }
+
+    await this.reload();
+    return true;
+  }
+
+  /**
+   * Destination matcher against the client's applications and profiles
+   * @param destination - Spring Cloud Bus destination (e.g. 'my-app:dev:**')
+   */
+  matches(destination: string): boolean {
+    const target: ConfigTarget = this.watcher.target;
+    const pattern = destination.endsWith("**") ? destination : `${destination}:**`;
+
+    return target.applications.some((app) =>
+      // profile segment may address the whole profile list or any single profile
+      [target.profiles.join(","), ...target.profiles].some((profile) => matchSegments(pattern, `${app}:${profile}`))
+    );
+  }
+
+  /**
+   * Reload that starts after the notification
+   * A running reload may have read the config before this change, so notifications arriving meanwhile
+   * share one more reload queued after it.
+   */
+  private reload(): Promise<Config> {
+    if (this.queued) return this.queued;
+
+    if (this.running || this.watcher.isLoading) {
+      const current = this.running ?? this.watcher.refresh();
+      this.queued = current
+        .catch(() => undefined)
+        .then(() => {
+          this.queued = null;
+          return this.start();
+        });
+      return this.queued;
+    }
+
+    return this.start();
+  }
+
+  /**
+   * Watcher refresh tracked as the running reload
+   */
+  private start(): Promise<Config> {
+    this.running = this.watcher.refresh().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Raw body parser
+   * @returns null for bodies that are not a notification object (e.g. 'null' or '42')
+   */
+  private parse(notification: RefreshNotification | string): RefreshNotification | null {
+    if (typeof notification !== "string") {
+      return typeof notification === "object" && notification !== null ? notification : null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(notification);
+      return typeof parsed === "object" && parsed !== null ? (parsed as RefreshNotification) : null;
+    } catch {
+      // form encoded /monitor body (path=my-app-dev.yml)
+      return { path: new URLSearchParams(notification).getAll("path") };
+    }
+  }
+
+  /**
+   * Destination extractor
+   */
+  private destinationsOf(notification: RefreshNotification): string[] {
+    const event = notification as BusRefreshEvent;
+
+    if (event.type !== undefined || event.destinationService !== undefined) {
+      if (event.type !== undefined && event.type !== "RefreshRemoteApplicationEvent") {
+        return [];
+      }
+      return [event.destinationService ?? "**"];
+    }
+
+    const monitor = notification as MonitorNotification;
+    const paths = [
+      ...(Array.isArray(monitor.path) ? monitor.path : monitor.path ? [monitor.path] : []),
+      ...(monitor.commits ?? []).flatMap((commit) => [
+        ...(commit.added ?? []),
+        ...(commit.modified ?? []),
+        ...(commit.removed ?? []),
+      ]),
+    ];
+
+    return paths.flatMap(guessDestinations);
+  }
+}
+
+/**
+ * Changed file path to bus destinations (same rules as Spring's /monitor endpoint)
+ * ex) 'config/my-app-dev.yml' -> ['my-app-dev', 'my:app-dev', 'my-app:dev']
+ * ex) 'application.yml' -> ['**']
+ */
+function guessDestinations(path: string): string[] {
+  const file = path.split("/").pop() ?? "";
+  const stem = file.replace(/\.[^.]*$/, "");
+
+  if (!stem) return [];
+  if (stem === "application" || stem.startsWith("application-")) return ["**"];
+
+  const destinations = [stem];
+  for (let i = stem.indexOf("-"); i > 0; i = stem.indexOf("-", i + 1)) {
+    destinations.push(`${stem.slice(0, i)}:${stem.slice(i + 1)}`);
+  }
+
+  return destinations;
+}
+
+/**
+ * ':' separated glob matcher ('*' within a segment, '**' for any remaining segments)
+ */
+function matchSegments(pattern: string, id: string): boolean {
+  const patternSegments = pattern.split(":");
+  const idSegments = id.split(":");
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+
+    if (segment === "**") return true;
+    if (i >= idSegments.length) return false;
+
+    const regex = new RegExp(`^${segment.split("*").map(escapeRegExp).join(".*")}$`);
+    if (!regex.test(idSegments[i])) return false;
+  }
+
+  return patternSegments.length === idSegments.length;
+}
+
+/**
+ * RegExp special character escaper
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,155 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "node:crypto";
+import { lstat, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { CacheEntry, ConfigCache, ConfigClientError, FileConfigCacheOptions } from "./types";
+
+/**
+ * Encrypted cache file layout
+ */
+interface EncryptedPayload {
+  encrypted: true;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ALGORITHM = "aes-256-gcm";
+
+/**
+ * Cache key builder
+ * Same endpoint + applications + profiles + label (+ resource) always maps to the same key.
+ * @param resource - Resource request path, for resource file entries
+ */
+export function buildCacheKey(
+  endpoint: string,
+  applications: string[],
+  profiles: string[],
+  label: string,
+  resource?: string
+): string {
+  const parts: unknown[] = [endpoint, applications, profiles, label];
+  if (resource !== undefined) parts.push(resource);
+
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+/**
+ * In-memory cache store (tests, short lived processes)
+ */
+export class MemoryConfigCache implements ConfigCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+}
+
+/**
+ * File system cache store
+ * One JSON file per cache key, optionally encrypted so secrets are not left in plaintext.
+ */
+export class FileConfigCache implements ConfigCache {
+  private readonly directory: string;
+  private readonly key: Buffer | null;
+
+  constructor(options: FileConfigCacheOptions = {}) {
+    this.directory = options.directory ?? join(homedir(), ".cache", "config-client");
+    this.key = options.encryptionKey ? scryptSync(options.encryptionKey, "config-client-cache", 32) : null;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    let content: string;
+
+    try {
+      await this.checkDirectory();
+      content = await readFile(this.filePath(key), "utf8");
+    } catch {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(content) as CacheEntry | EncryptedPayload;
+      if ("encrypted" in parsed) return this.decrypt(parsed);
+
+      // with a key, plaintext files were not written by this cache and are not trusted
+      return this.key ? null : parsed;
+    } catch {
+      // corrupted file or wrong encryption key
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const content = JSON.stringify(this.key ? this.encrypt(entry) : entry);
+    const file = this.filePath(key);
+    const tmp = `${file}.${process.pid}.tmp`;
+
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await this.checkDirectory();
+    // write + rename so a crash never leaves a half written cache file
+    await writeFile(tmp, content, { mode: 0o600 });
+    await rename(tmp, file);
+  }
+
+  /**
+   * Directory ownership check
+   * mkdir() keeps the mode of an existing directory, so a directory created by another user
+   * (or open to group / others) could hold planted entries and is not used.
+   */
+  private async checkDirectory(): Promise<void> {
+    const stats = await lstat(this.directory);
+    const uid = process.getuid?.();
+
+    if (!stats.isDirectory()) {
+      throw new ConfigClientError(`Cache directory is not a directory: ${this.directory}`);
+    }
+    // POSIX only: Windows has no uid or mode bits
+    if (uid !== undefined && (stats.uid !== uid || (stats.mode & 0o077) !== 0)) {
+      throw new ConfigClientError(
+        `Cache directory must be owned by the current user and not accessible to others: ${this.directory}`
+      );
+    }
+  }
+
+  /**
+   * Cache file path
+   */
+  private filePath(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+
+  /**
+   * Entry encryption
+   */
+  private encrypt(entry: CacheEntry): EncryptedPayload {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.key!, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(entry), "utf8"), cipher.final()]);
+
+    return {
+      encrypted: true,
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+  }
+
+  /**
+   * Entry decryption
+   * @returns null if no encryption key is configured
+   */
+  private decrypt(payload: EncryptedPayload): CacheEntry | null {
+    if (!this.key) return null;
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(payload.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+    const data = Buffer.concat([decipher.update(Buffer.from(payload.data, "base64")), decipher.final()]);
+
+    return JSON.parse(data.toString("utf8")) as CacheEntry;
+  }
+}
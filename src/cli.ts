@@ -0,0 +1,382 @@
+import { parseArgs } from "node:util";
+import { createClient } from "./client";
+import { parseKey } from "./keys";
+import { Sanitizer } from "./sanitize";
+import {
+  AuthOptions,
+  ConfigClientError,
+  ConfigClientOptions,
+  ConfigNetworkError,
+  ConfigNotFoundError,
+  ConfigTimeoutError,
+  ConfigUnauthorizedError,
+} from "./types";
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** Unexpected failure (invalid response, decryption, ...) */
+  error: 1,
+  /** Invalid command or options */
+  usage: 2,
+  /** Application, label or key not found */
+  notFound: 3,
+  /** Rejected credentials (401, 403) */
+  unauthorized: 4,
+  /** Config server unreachable (network error, timeout, 5xx) */
+  unavailable: 5,
+} as const;
+
+/**
+ * default options
+ */
+const DEFAULT_OPTIONS = {
+  endpoint: "http://localhost:8888",
+  format: "json",
+  retries: 0,
+};
+
+const USAGE = `Usage: config-client <command> [options]
+
+Commands:
+  show                 Print the merged configuration
+  get <key>            Print a single property value
+  origins [key]        Show the property source of each value
+  diff                 Compare two profile sets (--from-profile/--to-profile)
+                       or two labels (--from-label/--to-label)
+
+Options:
+  -e, --endpoint <url>       Config Server URL (comma separated for failover) or file:<directory>
+                             (env: SPRING_CLOUD_CONFIG_URI, default: ${DEFAULT_OPTIONS.endpoint})
+  -a, --application <name>   Application name, repeatable or comma separated (env: SPRING_APPLICATION_NAME)
+  -p, --profile <name>       Profile, repeatable or comma separated (env: SPRING_PROFILES_ACTIVE)
+  -l, --label <label>        Label (env: SPRING_CLOUD_CONFIG_LABEL)
+  -f, --format <format>      show: json | yaml | properties | env (default: json)
+                             get, origins, diff: text | json (default: text)
+      --mask                 Mask sensitive values
+      --username <name>      Basic auth username (env: SPRING_CLOUD_CONFIG_USERNAME)
+      --password <password>  Basic auth password (env: SPRING_CLOUD_CONFIG_PASSWORD)
+      --token <token>        Bearer token (env: SPRING_CLOUD_CONFIG_TOKEN)
+      --api-key <key>        API key
+      --timeout <ms>         Request timeout
+      --retries <count>      Retries per request (default: ${DEFAULT_OPTIONS.retries})
+  -h, --help                 Show this help
+
+Exit codes:
+  0 success, 1 error, 2 usage, 3 not found, 4 unauthorized, 5 server unavailable
+`;
+
+const PARSE_OPTIONS = {
+  endpoint: { type: "string", short: "e" },
+  application: { type: "string", short: "a", multiple: true },
+  profile: { type: "string", short: "p", multiple: true },
+  label: { type: "string", short: "l" },
+  format: { type: "string", short: "f" },
+  mask: { type: "boolean" },
+  username: { type: "string" },
+  password: { type: "string" },
+  token: { type: "string" },
+  "api-key": { type: "string" },
+  timeout: { type: "string" },
+  retries: { type: "string" },
+  "from-profile": { type: "string", multiple: true },
+  "to-profile": { type: "string", multiple: true },
+  "from-label": { type: "string" },
+  "to-label": { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+/**
+ * Parsed command line options
+ */
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof PARSE_OPTIONS; allowPositionals: true }>>["values"];
+
+/**
+ * Output streams and environment of a CLI run
+ */
+interface CliContext {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Invalid command or options
+ */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/**
+ * Missing property key
+ */
+class CliKeyNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Key not found: ${key}`);
+    this.name = "CliKeyNotFoundError";
+  }
+}
+
+/**
+ * CLI entry point
+ * @param argv - Arguments without the node executable and script path
+ * @returns process exit code
+ */
+export async function runCli(argv: string[], context: Partial<CliContext> = {}): Promise<number> {
+  const io: CliContext = {
+    stdout: context.stdout ?? ((text) => process.stdout.write(text)),
+    stderr: context.stderr ?? ((text) => process.stderr.write(text)),
+    env: context.env ?? process.env,
+  };
+
+  try {
+    const { values, positionals } = parseArgs({ args: argv, options: PARSE_OPTIONS, allowPositionals: true });
+    const [command, ...args] = positionals;
+
+    if (values.help || command === "help") {
+      io.stdout(USAGE);
+      return EXIT_CODES.success;
+    }
+    if (command === undefined) {
+      io.stderr(USAGE);
+      return EXIT_CODES.usage;
+    }
+
+    switch (command) {
+      case "show":
+        io.stdout(await show(values, io.env));
+        break;
+      case "get":
+        io.stdout(await get(values, io.env, args[0]));
+        break;
+      case "origins":
+        io.stdout(await origins(values, io.env, args[0]));
+        break;
+      case "diff":
+        io.stdout(await diff(values, io.env));
+        break;
+      default:
+        throw new CliUsageError(`Unknown command: ${command}`);
+    }
+
+    return EXIT_CODES.success;
+  } catch (error) {
+    io.stderr(`config-client: ${(error as Error).message}\n`);
+    if (error instanceof CliUsageError || isParseArgsError(error)) io.stderr(`Run 'config-client --help' for usage.\n`);
+    return exitCodeOf(error);
+  }
+}
+
+/**
+ * Exit code of a failure
+ */
+export function exitCodeOf(error: unknown): number {
+  if (error instanceof CliUsageError || isParseArgsError(error)) return EXIT_CODES.usage;
+  if (error instanceof CliKeyNotFoundError || error instanceof ConfigNotFoundError) return EXIT_CODES.notFound;
+  if (error instanceof ConfigUnauthorizedError) return EXIT_CODES.unauthorized;
+  if (error instanceof ConfigNetworkError || error instanceof ConfigTimeoutError) return EXIT_CODES.unavailable;
+  if (error instanceof ConfigClientError && (error.statusCode ?? 0) >= 500) return EXIT_CODES.unavailable;
+  return EXIT_CODES.error;
+}
+
+/**
+ * `show` command: merged configuration in the requested format
+ */
+async function show(values: CliOptions, env: CliContext["env"]): Promise<string> {
+  const format = values.format ?? DEFAULT_OPTIONS.format;
+  if (!["json", "yaml", "properties", "env"].includes(format)) {
+    throw new CliUsageError(`Unsupported format for show: ${format}`);
+  }
+
+  const config = await createClient(clientOptions(values, env)).load();
+
+  const sanitize = values.mask ?? false;
+
+  switch (format) {
+    case "yaml":
+      return config.toYaml({ sanitize });
+    case "properties":
+      return config.toProperties({ sanitize });
+    case "env":
+      return config.toDotenv({ sanitize });
+    default:
+      return `${config.toJSON({ sanitize })}\n`;
+  }
+}
+
+/**
+ * `get` command: single property value (objects and lists are printed as JSON)
+ */
+async function get(values: CliOptions, env: CliContext["env"], key: string | undefined): Promise<string> {
+  if (!key) throw new CliUsageError("Missing property key");
+  const json = textOrJson(values, "get");
+
+  const config = await createClient(clientOptions(values, env)).load();
+  if (!config.has(key)) throw new CliKeyNotFoundError(key);
+
+  let value = config.get(key);
+  if (values.mask) {
+    // nested values are taken from the masked tree, scalars are masked by their resolved flat key
+    value =
+      typeof value === "object" && value !== null
+        ? parseKey(key).reduce<unknown>(
+            (node, segment) =>
+              typeof node === "object" && node !== null
+                ? (node as Record<string | number, unknown>)[segment]
+                : undefined,
+            config.toSanitizedObject()
+          )
+        : new Sanitizer().sanitize(config.origin(key)?.key ?? key, value);
+  }
+  if (json || (typeof value === "object" && value !== null)) {
+    return `${JSON.stringify(value, null, 2)}\n`;
+  }
+  return `${String(value)}\n`;
+}
+
+/**
+ * `origins` command: winning property source (and shadowed values) of each key
+ */
+async function origins(values: CliOptions, env: CliContext["env"], key: string | undefined): Promise<string> {
+  const json = textOrJson(values, "origins");
+  const config = await createClient(clientOptions(values, env)).load();
+
+  let entries = Object.values(config.origins());
+  if (key) {
+    const origin = config.origin(key);
+    if (!origin) throw new CliKeyNotFoundError(key);
+    entries = [origin];
+  }
+
+  const sanitizer = new Sanitizer();
+  const display = (flatKey: string, value: unknown) => (values.mask ? sanitizer.sanitize(flatKey, value) : value);
+  const masked = entries.map((origin) => ({
+    ...origin,
+    value: display(origin.key, origin.value),
+    shadowed: origin.shadowed.map((item) => ({ ...item, value: display(origin.key, item.value) })),
+  }));
+
+  if (json) {
+    return `${JSON.stringify(masked, null, 2)}\n`;
+  }
+
+  return masked
+    .map((origin) =>
+      [
+        `${origin.key}=${formatValue(origin.value)}  <- ${origin.source}`,
+        ...origin.shadowed.map((item) => `  (shadowed) ${formatValue(item.value)}  <- ${item.source}`),
+      ].join("\n")
+    )
+    .map((block) => `${block}\n`)
+    .join("");
+}
+
+/**
+ * `diff` command: added, removed and changed keys between two profile sets or labels
+ */
+async function diff(values: CliOptions, env: CliContext["env"]): Promise<string> {
+  const json = textOrJson(values, "diff");
+  const from = { profiles: list(values["from-profile"]), label: values["from-label"] };
+  const to = { profiles: list(values["to-profile"]), label: values["to-label"] };
+  if (!from.profiles && !to.profiles && from.label === undefined && to.label === undefined) {
+    throw new CliUsageError("diff needs --from-profile/--to-profile or --from-label/--to-label");
+  }
+
+  const changes = await createClient(clientOptions(values, env)).diff(from, to, { sanitize: values.mask ?? false });
+
+  if (json) {
+    return `${JSON.stringify(changes, null, 2)}\n`;
+  }
+
+  return [
+    ...changes.added.map((change) => `+ ${change.key}=${formatValue(change.newValue)}`),
+    ...changes.removed.map((change) => `- ${change.key}=${formatValue(change.oldValue)}`),
+    ...changes.changed.map(
+      (change) => `~ ${change.key}: ${formatValue(change.oldValue)} -> ${formatValue(change.newValue)}`
+    ),
+  ]
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+/**
+ * Client options from the command line and the Spring Cloud Config environment variables
+ */
+function clientOptions(values: CliOptions, env: CliContext["env"]): ConfigClientOptions {
+  const applications = list(values.application) ?? list(env.SPRING_APPLICATION_NAME);
+  if (!applications) throw new CliUsageError("Missing application name (--application)");
+
+  const username = values.username ?? env.SPRING_CLOUD_CONFIG_USERNAME;
+  const password = values.password ?? env.SPRING_CLOUD_CONFIG_PASSWORD;
+  const bearer = values.token ?? env.SPRING_CLOUD_CONFIG_TOKEN;
+  const auth: AuthOptions = {
+    ...(username !== undefined && { basic: { username, password: password ?? "" } }),
+    ...(bearer !== undefined && { bearer }),
+    ...(values["api-key"] !== undefined && { apiKey: values["api-key"] }),
+  };
+
+  return {
+    endpoint: values.endpoint ?? env.SPRING_CLOUD_CONFIG_URI ?? DEFAULT_OPTIONS.endpoint,
+    application: applications,
+    profiles: list(values.profile) ?? list(env.SPRING_PROFILES_ACTIVE),
+    label: values.label ?? env.SPRING_CLOUD_CONFIG_LABEL,
+    auth: Object.keys(auth).length > 0 ? auth : undefined,
+    timeout: values.timeout !== undefined ? number(values.timeout, "--timeout") : undefined,
+    retry: { maxRetries: values.retries !== undefined ? number(values.retries, "--retries") : DEFAULT_OPTIONS.retries },
+  };
+}
+
+/**
+ * Whether the text/json output format was requested
+ */
+function textOrJson(values: CliOptions, command: string): boolean {
+  const format = values.format ?? "text";
+  if (format !== "text" && format !== "json") {
+    throw new CliUsageError(`Unsupported format for ${command}: ${format}`);
+  }
+  return format === "json";
+}
+
+/**
+ * Repeatable and comma separated option values
+ * @returns undefined if no value was given
+ */
+function list(value: string | string[] | undefined): string[] | undefined {
+  const items = [value ?? []]
+    .flat()
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Non-negative number option parser
+ */
+function number(value: string, option: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new CliUsageError(`Invalid ${option}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Text representation of a property value
+ */
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * node:util parseArgs failure (unknown option, missing value, ...)
+ */
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS");
+}
@@ -1,11 +1,58 @@
+import { createWriteStream } from "node:fs";
+import { rename, unlink } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { fileURLToPath } from "node:url";
+import { Authenticator, extractUrlCredentials } from "./auth";
+import { FileConfigBackend } from "./backends";
+import { buildCacheKey, FileConfigCache } from "./cache";
 import { Config } from "./config";
+import { CipherDecryptor } from "./decrypt";
+import { diffConfig } from "./diff";
+import { EndpointPool } from "./endpoints";
+import { parseProperties, parseYaml } from "./formats";
+import { flatten } from "./keys";
+import { buildLayerSources } from "./layers";
+import { RetryPolicy } from "./retry";
+import { Telemetry } from "./telemetry";
+import { createNodeTransport, fetchTransport } from "./transport";
+import { ConfigWatcher } from "./watcher";
 import {
+  ActuatorEnvironment,
+  ConfigBackend,
   ConfigClientOptions,
+  ConfigClientStats,
+  ConfigDiff,
+  ConfigDiffTarget,
+  ConfigRequest,
+  ConfigServerHealth,
+  ConfigSpan,
+  DiagnosticsOptions,
+  DiffOptions,
+  HealthComponent,
   ConfigResponse,
+  ConfigTarget,
   ConfigClientError,
-  AuthOptions,
-  RetryOptions,
+  ConfigInvalidResponseError,
+  ConfigLoadMode,
+  ConfigNetworkError,
+  ConfigNotFoundError,
+  ConfigTimeoutError,
+  ConfigUnauthorizedError,
+  EndpointFailure,
+  FormatLoadOptions,
+  InterceptorOptions,
+  LoadAsOptions,
+  ResourceOptions,
+  ConfigCache,
+  ConfigOptions,
+  TextDecryptor,
+  PlaceholderResolver,
+  PropertyLayerOptions,
   ResponseFormat,
+  Transport,
+  WatchOptions,
 } from "./types";
 
 /**
@@ -15,110 +62,417 @@ const DEFAULT_OPTIONS = {
   profiles: ["default"] as string[],
   label: "main",
   timeout: 5000,
-  retry: {
-    maxRetries: 3,
-    retryDelay: 1000,
-    exponentialBackoff: true,
+  diagnosticsTimeout: 2000,
+  mode: "fail-fast" as ConfigLoadMode,
+  failover: {
+    strategy: "ordered" as const,
+    unhealthyTimeout: 30000,
   },
 };
 
+/**
+ * File extension of each response format
+ */
+const FORMAT_EXTENSIONS: Record<ResponseFormat, string> = {
+  yaml: "yml",
+  properties: "properties",
+  json: "json",
+};
+
+/**
+ * Merged response of all applications
+ */
+interface MergedResponse {
+  /** null if no application could be loaded (optional mode) */
+  response: ConfigResponse | null;
+  /** Failed applications (optional mode) */
+  errors: Record<string, ConfigClientError>;
+  /** Responses of the loaded applications, in application order */
+  responses: ConfigResponse[];
+}
+
+/**
+ * Last response of an application (conditional requests)
+ */
+interface ApplicationRevision {
+  response: ConfigResponse;
+  etag?: string;
+}
+
 /**
  * Config Server client class
  */
 export class ConfigClient {
-  private readonly endpoint: string;
+  private readonly options: ConfigClientOptions;
+  private readonly endpoints: EndpointPool;
   private readonly applications: string[];
   private readonly profiles: string[];
   private readonly label: string;
   private readonly timeout: number;
   private readonly headers: Record<string, string>;
-  private readonly retry: Required<RetryOptions>;
-  private readonly auth?: AuthOptions;
+  private readonly retry: RetryPolicy;
+  private readonly authenticator: Authenticator;
+  private readonly cache: ConfigCache | null;
+  private readonly cacheMaxAge: number;
+  private readonly decryptor?: TextDecryptor;
+  private readonly failOnDecryptionError: boolean;
+  private readonly placeholders: boolean | PlaceholderResolver;
+  private readonly layers: PropertyLayerOptions[];
+  private readonly mode: ConfigLoadMode;
+  private readonly transport: Transport;
+  private readonly interceptors: Required<InterceptorOptions>;
+  private readonly telemetry: Telemetry;
+  private readonly sensitiveKeys?: readonly (string | RegExp)[];
+  private readonly backend: ConfigBackend | null;
+  private readonly conditional: boolean;
+  private readonly revisions = new Map<string, ApplicationRevision>();
+  private readonly counters: ConfigClientStats = {
+    loads: 0,
+    deduplicated: 0,
+    notModified: 0,
+    unchanged: 0,
+    misses: 0,
+    reused: 0,
+  };
+  private lastVersion: string | null | undefined;
+  private lastLoad: { responses: ConfigResponse[]; config: Config } | null = null;
+  private inflight: Promise<Config> | null = null;
 
   constructor(options: ConfigClientOptions) {
-    this.endpoint = options.endpoint.replace(/\/+$/, "");
+    this.options = options;
+    let basic: { username: string; password: string } | undefined;
+    const configured = (Array.isArray(options.endpoint) ? options.endpoint : options.endpoint?.split(",") ?? [])
+      .map((value) => value.trim())
+      .filter((value) => value !== "");
+
+    // 'file:' endpoints select the local config repository backend
+    const directories = configured.filter((value) => value.startsWith("file:"));
+    if (directories.length > 0 && (directories.length > 1 || configured.length > 1 || options.backend)) {
+      throw new ConfigClientError("A file: endpoint cannot be combined with other endpoints or a backend");
+    }
+
+    const endpoints =
+      directories.length > 0
+        ? []
+        : configured.map((value) => {
+            const extracted = extractUrlCredentials(value);
+            // the first endpoint with userinfo provides the Basic credentials
+            basic = basic ?? extracted.basic;
+            return extracted.endpoint.replace(/\/+$/, "");
+          });
+
+    this.backend =
+      directories.length > 0
+        ? new FileConfigBackend({ directory: fileDirectory(directories[0]) })
+        : options.backend ?? null;
+    if (endpoints.length === 0 && !this.backend) {
+      throw new ConfigClientError("No config server endpoint configured");
+    }
+
     this.applications = Array.isArray(options.application) ? options.application : [options.application];
     this.profiles = options.profiles ?? DEFAULT_OPTIONS.profiles;
     this.label = options.label ?? DEFAULT_OPTIONS.label;
     this.timeout = options.timeout ?? DEFAULT_OPTIONS.timeout;
-    this.auth = options.auth;
+    if (options.transport && options.tls) {
+      throw new ConfigClientError("transport and tls options cannot be combined");
+    }
+
+    this.transport = options.tls ? createNodeTransport(options.tls) : options.transport ?? fetchTransport;
+    this.interceptors = {
+      request: options.interceptors?.request ?? [],
+      response: options.interceptors?.response ?? [],
+    };
+    this.authenticator = new Authenticator(
+      basic ? { basic, ...options.auth } : options.auth,
+      this.timeout,
+      this.transport
+    );
     this.headers = options.headers ?? {};
-    this.retry = {
-      maxRetries: options.retry?.maxRetries ?? DEFAULT_OPTIONS.retry.maxRetries,
-      retryDelay: options.retry?.retryDelay ?? DEFAULT_OPTIONS.retry.retryDelay,
-      exponentialBackoff: options.retry?.exponentialBackoff ?? DEFAULT_OPTIONS.retry.exponentialBackoff,
+    this.telemetry = new Telemetry({
+      logger: options.logger,
+      metrics: options.metrics,
+      tracer: options.tracer,
+      redact: (text) => this.authenticator.redact(text),
+    });
+    this.endpoints = new EndpointPool(endpoints, {
+      strategy: options.failover?.strategy ?? DEFAULT_OPTIONS.failover.strategy,
+      unhealthyTimeout: options.failover?.unhealthyTimeout ?? DEFAULT_OPTIONS.failover.unhealthyTimeout,
+      probe: (endpoint) => this.probe(endpoint),
+    });
+    this.retry = new RetryPolicy(options.retry);
+
+    const cache = options.cache === true ? {} : options.cache || null;
+    this.cache = cache ? cache.store ?? new FileConfigCache() : null;
+    this.cacheMaxAge = cache ? cache.maxAge ?? Infinity : Infinity;
+
+    this.decryptor = options.decryption ? new CipherDecryptor(options.decryption) : undefined;
+    this.failOnDecryptionError = options.decryption?.failOnError ?? false;
+    this.placeholders = options.placeholders ?? true;
+    this.layers = options.layers ?? [];
+    this.mode = options.mode ?? DEFAULT_OPTIONS.mode;
+    this.sensitiveKeys = options.sensitiveKeys;
+    this.conditional = options.conditional ?? true;
+  }
+
+  /**
+   * Applications, profiles and label requested by this client
+   */
+  get target(): ConfigTarget {
+    return {
+      applications: [...this.applications],
+      profiles: [...this.profiles],
+      label: this.label,
     };
   }
 
+  /**
+   * Load statistics (conditional request hits and misses, deduplicated and reused loads)
+   */
+  get stats(): ConfigClientStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Whether a load() is in progress (later calls join it)
+   */
+  get isLoading(): boolean {
+    return this.inflight !== null;
+  }
+
   /**
    * authentication heaeders builder
    */
-  private buildAuthHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {};
+  private buildAuthHeaders(): Promise<Record<string, string>> {
+    return this.authenticator.headers();
+  }
+
+  /**
+   * Single HTTP GET with timeout (through the transport and interceptors)
+   * @throws ConfigTimeoutError | ConfigNetworkError if no response is received
+   */
+  private async request(
+    url: string,
+    extraHeaders: Record<string, string> = {},
+    timeout = this.timeout
+  ): Promise<Response> {
+    let request: ConfigRequest = {
+      url,
+      method: "GET",
+      headers: {
+        ...this.headers,
+        ...(await this.buildAuthHeaders()),
+        ...extraHeaders,
+      },
+    };
+
+    for (const interceptor of this.interceptors.request) {
+      request = (await interceptor(request)) ?? request;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const startedAt = Date.now();
+    let response: Response;
+
+    this.telemetry.log("debug", "request.start", {
+      url: request.url,
+      method: request.method,
+      headers: this.telemetry.redactHeaders(request.headers),
+    });
+
+    try {
+      response = await this.transport(request.url, {
+        method: request.method,
+        headers: request.headers,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const duration = Date.now() - startedAt;
+      this.telemetry.log("debug", "request.end", { url: request.url, duration, error: error as Error });
+      this.telemetry.increment("config_client.requests", { status: "error" });
+      this.telemetry.observe("config_client.request.duration", duration, { status: "error" });
 
-    if (!this.auth) return headers;
+      if (controller.signal.aborted) {
+        throw new ConfigTimeoutError(`Request timed out after ${timeout}ms`, undefined, request.url);
+      }
+      throw new ConfigNetworkError((error as Error).message, undefined, request.url);
+    } finally {
+      clearTimeout(timeoutId);
+    }
 
-    if (this.auth.apiKey) {
-      headers["X-API-Key"] = this.auth.apiKey;
+    const duration = Date.now() - startedAt;
+    this.telemetry.log("debug", "request.end", { url: request.url, status: response.status, duration });
+    this.telemetry.increment("config_client.requests", { status: String(response.status) });
+    this.telemetry.observe("config_client.request.duration", duration, { status: String(response.status) });
+
+    for (const interceptor of this.interceptors.response) {
+      response = (await interceptor(response, request)) ?? response;
     }
 
-    return headers;
+    return response;
   }
 
   /**
-   * HTTP fetch (including retry logic)
+   * Single health request to an endpoint (no retry, diagnostics timeout)
    */
-  private async fetchWithRetry(url: string): Promise<Response> {
-    const headers = {
-      ...this.headers,
-      ...this.buildAuthHeaders(),
-    };
+  private async probe(endpoint: string): Promise<boolean> {
+    const response = await this.actuatorRequest(endpoint, "/actuator/health", {});
+    return response.ok;
+  }
 
-    let lastError: Error | null = null;
+  /**
+   * HTTP fetch (including retry and endpoint failover logic)
+   * Every attempt tries the endpoints in failover order; backoff only starts once all of them failed.
+   * Non-retryable statuses (ex. 401, 404) fail immediately.
+   * @param path - Request path relative to the endpoint
+   * @param headers - Additional request headers
+   */
+  private fetchWithRetry(path: string, headers: Record<string, string> = {}): Promise<Response> {
+    return this.telemetry.span("config-client.fetch", { "http.request.method": "GET", "url.path": path }, (span) =>
+      this.fetchWithFailover(path, headers, span)
+    );
+  }
 
-    for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-        const response = await fetch(url, {
-          method: "GET",
-          headers,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new ConfigClientError(
-            `Config server returned ${response.status}: ${response.statusText}`,
-            response.status,
-            url
-          );
+  /**
+   * Retry and failover loop of fetchWithRetry
+   */
+  private async fetchWithFailover(path: string, headers: Record<string, string>, span: ConfigSpan): Promise<Response> {
+    if (this.endpoints.all.length === 0) {
+      throw new ConfigClientError(`No config server endpoint configured for ${path} (backends only serve load())`);
+    }
+
+    const failures: EndpointFailure[] = [];
+    const startedAt = Date.now();
+    let lastError: ConfigClientError | null = null;
+    let lastUrl: string | undefined;
+    let attempts = 0;
+    let delay = 0;
+
+    // each request's timeout is clamped to the rest of maxElapsedTime, so the budget bounds the whole loop
+    const remaining = () => this.retry.maxElapsedTime - (Date.now() - startedAt);
+    const timeout = () => Math.max(1, Math.min(this.timeout, remaining()));
+    let exhausted = false;
+
+    for (let attempt = 0; ; attempt++) {
+      let retryable = true;
+      let retryAfter: number | undefined;
+      attempts++;
+
+      for (const endpoint of await this.endpoints.candidates()) {
+        if (lastError && remaining() <= 0) {
+          exhausted = true;
+          break;
         }
 
-        return response;
-      } catch (error) {
-        lastError = error as Error;
+        const url = `${endpoint}${path}`;
+        let response: Response;
+        lastUrl = url;
+
+        try {
+          response = await this.request(url, headers, timeout());
 
-        // stop retrying on abort or non-retryable errors
-        if (attempt < this.retry.maxRetries) {
-          const delay = this.retry.exponentialBackoff
-            ? this.retry.retryDelay * Math.pow(2, attempt)
-            : this.retry.retryDelay;
+          // refreshable credentials (OAuth2 token, custom provider) get one immediate retry on 401
+          if (response.status === 401 && this.authenticator.invalidate()) {
+            response = await this.request(url, headers, timeout());
+          }
+        } catch (error) {
+          lastError =
+            error instanceof ConfigClientError
+              ? error
+              : new ConfigClientError((error as Error).message, undefined, url);
+          failures.push({ endpoint, attempt, message: lastError.message });
 
-          await this.sleep(delay);
+          // rejected OAuth2 client credentials: every endpoint and retry would fail the same way
+          if (lastError instanceof ConfigUnauthorizedError) {
+            retryable = false;
+            break;
+          }
+
+          // network error or timeout: fail over to the next endpoint
+          retryable = this.retry.retryOnNetworkError;
+          if (!this.authenticator.isTokenError(lastError)) this.endpoints.markUnhealthy(endpoint);
+          continue;
+        }
+
+        // 304 only answers a conditional request (If-None-Match) of fetchApplication
+        if (response.ok || response.status === 304) {
+          this.endpoints.markHealthy(endpoint);
+          span.setAttribute("server.address", endpoint);
+          span.setAttribute("http.response.status_code", response.status);
+          span.setAttribute("config.attempts", attempts);
+          return response;
         }
+
+        lastError = new (errorClassOf(response.status))(
+          `Config server returned ${response.status}: ${response.statusText}`,
+          response.status,
+          url
+        );
+        retryable = this.retry.isRetryableStatus(response.status);
+        retryAfter = Math.max(retryAfter ?? 0, this.retry.retryAfter(response) ?? 0) || undefined;
+        failures.push({ endpoint, attempt, message: lastError.message, statusCode: response.status });
+
+        // non-retryable responses are not endpoint failures: another endpoint would answer the same
+        if (!retryable) break;
+        if (response.status >= 500) this.endpoints.markUnhealthy(endpoint);
       }
+
+      if (exhausted || !retryable || attempt >= this.retry.maxRetries) break;
+
+      delay = this.retry.delay(attempt, delay, retryAfter);
+      if (Date.now() - startedAt + delay > this.retry.maxElapsedTime) break;
+
+      const event = {
+        attempt: attempt + 1,
+        delay,
+        error: lastError as ConfigClientError,
+        statusCode: failures[failures.length - 1]?.statusCode,
+      };
+      this.telemetry.log("warn", "request.retry", { path, ...event });
+      this.telemetry.increment("config_client.retries");
+      this.retry.notify(event);
+      await this.sleep(delay);
     }
 
-    throw new ConfigClientError(
-      `Failed to fetch config after ${this.retry.maxRetries + 1} attempts: ${lastError?.message}`,
-      undefined,
-      url
+    const tried = [...new Set(failures.map((failure) => failure.endpoint))]
+      .map((endpoint) => {
+        const failure = failures.filter((item) => item.endpoint === endpoint).pop();
+        return `${endpoint} (${failure?.message})`;
+      })
+      .join(", ");
+
+    const ErrorClass = (
+      lastError instanceof ConfigClientError ? lastError.constructor : ConfigClientError
+    ) as typeof ConfigClientError;
+    const statusCode = failures[failures.length - 1]?.statusCode;
+
+    span.setAttribute("config.attempts", attempts);
+    if (statusCode !== undefined) span.setAttribute("http.response.status_code", statusCode);
+    this.telemetry.log("error", "request.failure", { path, attempts, statusCode, error: lastError as Error });
+    this.telemetry.increment("config_client.failures", { error: ErrorClass.name });
+
+    throw new ErrorClass(
+      this.authenticator.redact(
+        `Failed to fetch config after ${attempts} attempt${attempts > 1 ? "s" : ""}: ${lastError?.message}` +
+          (this.endpoints.all.length > 1 ? `; tried ${tried}` : "")
+      ),
+      statusCode,
+      lastUrl,
+      failures.map((failure) => ({ ...failure, message: this.authenticator.redact(failure.message) }))
     );
   }
 
+  /**
+   * Client with the same options for other profiles or another label
+   */
+  private withTarget(target: ConfigDiffTarget): ConfigClient {
+    return new ConfigClient({
+      ...this.options,
+      profiles: target.profiles ?? this.profiles,
+      label: target.label ?? this.label,
+    });
+  }
+
   /**
    * Sleep helper function
    */
@@ -133,30 +487,215 @@ export class ConfigClient {
     return this.profiles.join(",");
   }
 
+  /**
+   * Cache key of this client's endpoint, applications, profiles and label
+   */
+  private get cacheKey(): string {
+    return buildCacheKey(this.endpoints.all.join(","), this.applications, this.profiles, this.label);
+  }
+
   /**
    * Config load helper
    * Fetches configuration for all applications and merges them.
    * Applications listed later in the array have higher priority.
+   * If a cache is configured, a successful load is cached and used as a (stale) fallback when the server is unreachable.
+   * In optional mode failed applications are skipped and recorded in `loadErrors`.
+   * Concurrent calls share one in-flight load.
    * @returns Config wrapper method
    */
-  async load(): Promise<Config> {
-    const requests = this.applications.map(async (app) => {
-      const url = `${this.endpoint}/${app}/${this.profileString}/${this.label}`;
-      const response = await this.fetchWithRetry(url);
-      return response.json() as Promise<ConfigResponse>;
+  load(): Promise<Config> {
+    if (this.inflight) {
+      this.counters.deduplicated++;
+      this.telemetry.increment("config_client.loads.deduplicated");
+      return this.inflight;
+    }
+
+    this.counters.loads++;
+    this.inflight = this.loadOnce().finally(() => {
+      this.inflight = null;
     });
+    return this.inflight;
+  }
+
+  /**
+   * Single load with telemetry (load() without deduplication)
+   */
+  private async loadOnce(): Promise<Config> {
+    const startedAt = Date.now();
+    const attributes = {
+      "config.applications": this.applications.join(","),
+      "config.profiles": this.profileString,
+      "config.label": this.label,
+    };
 
-    const responses = await Promise.all(requests);
+    return this.telemetry.span("config-client.load", attributes, async (span) => {
+      let config: Config;
 
-    if (responses.length === 0) {
+      try {
+        config = await this.loadConfig();
+      } catch (error) {
+        this.telemetry.log("error", "load.failure", { duration: Date.now() - startedAt, error: error as Error });
+        this.telemetry.increment("config_client.loads", { result: "failure" });
+        throw error;
+      }
+
+      const duration = Date.now() - startedAt;
+      const result = config.stale ? "stale" : Object.keys(config.loadErrors).length > 0 ? "partial" : "success";
+
+      span.setAttribute("config.version", config.version ?? "");
+      span.setAttribute("config.result", result);
+      this.telemetry.log("info", "load.end", { name: config.name, version: config.version, result, duration });
+      this.telemetry.increment("config_client.loads", { result });
+      this.telemetry.observe("config_client.load.duration", duration, { result });
+
+      if (!config.stale && result === "success") {
+        if (this.lastVersion !== undefined && this.lastVersion !== config.version) {
+          this.telemetry.log("info", "load.version_change", { previous: this.lastVersion, version: config.version });
+        }
+        this.lastVersion = config.version;
+      }
+
+      return config;
+    });
+  }
+
+  /**
+   * Fetch, cache and wrap the configuration (load() without telemetry)
+   */
+  private async loadConfig(): Promise<Config> {
+    let merged: MergedResponse;
+
+    try {
+      merged = await this.fetchMergedResponse();
+    } catch (error) {
+      return this.loadFallback(error as Error, {});
+    }
+
+    const { response, errors, responses } = merged;
+    if (!response) {
+      return this.loadFallback(Object.values(errors)[0], errors);
+    }
+
+    const complete = Object.keys(errors).length === 0;
+
+    // cache write is best-effort: a read-only disk must not break a successful load
+    // partial responses (optional mode) are never cached
+    if (this.cache && complete) {
+      await this.cache.set(this.cacheKey, { response, cachedAt: Date.now() }).catch(() => undefined);
+    }
+
+    // unchanged responses (304 or same version) reuse the last Config
+    // not with layers: local layer files may have changed
+    const last = this.lastLoad;
+    if (
+      last &&
+      complete &&
+      this.layers.length === 0 &&
+      responses.length === last.responses.length &&
+      responses.every((item, i) => item === last.responses[i])
+    ) {
+      this.counters.reused++;
+      return last.config;
+    }
+
+    const config = await this.createConfig(response, { loadErrors: errors });
+    if (this.conditional && complete) {
+      this.lastLoad = { responses, config };
+    }
+
+    return config;
+  }
+
+  /**
+   * Config used when no application could be loaded
+   * Falls back to the cache, then (optional mode) to an empty config; otherwise rethrows.
+   */
+  private async loadFallback(error: Error, loadErrors: Record<string, ConfigClientError>): Promise<Config> {
+    const cached = this.cache ? await this.cache.get(this.cacheKey).catch(() => null) : null;
+
+    if (cached && "response" in cached && Date.now() - cached.cachedAt <= this.cacheMaxAge) {
+      this.telemetry.log("warn", "load.cache_fallback", { cachedAt: cached.cachedAt, error });
+      this.telemetry.increment("config_client.cache_fallbacks");
+      return this.createConfig(cached.response, { stale: true, cachedAt: cached.cachedAt });
+    }
+
+    if (this.mode === "optional" && error instanceof ConfigClientError) {
+      this.telemetry.log("warn", "load.optional_fallback", { errors: loadErrors });
+      return this.createConfig(
+        {
+          name: this.applications.join(","),
+          profiles: [...this.profiles],
+          label: this.label,
+          version: null,
+          state: null,
+          propertySources: [],
+        },
+        { loadErrors }
+      );
+    }
+
+    throw error;
+  }
+
+  /**
+   * Config wrapper builder
+   * Adds local property layers around the server sources and applies `{cipher}` decryption.
+   */
+  private async createConfig(response: ConfigResponse, options: ConfigOptions = {}): Promise<Config> {
+    if (this.layers.length > 0) {
+      const { override, fallback } = await buildLayerSources(this.layers, response.propertySources);
+      response = { ...response, propertySources: [...override, ...response.propertySources, ...fallback] };
+    }
+
+    const config = new Config(response, {
+      ...options,
+      decryptor: this.decryptor,
+      placeholders: this.placeholders,
+      sensitiveKeys: this.sensitiveKeys,
+    });
+
+    if (this.failOnDecryptionError) {
+      const [error] = Object.values(config.decryptionErrors);
+      if (error) throw error;
+    }
+
+    return config;
+  }
+
+  /**
+   * Fetch and merge the responses of all applications
+   * In fail-fast mode the first failure is thrown; in optional mode failures are collected per application.
+   */
+  private async fetchMergedResponse(): Promise<MergedResponse> {
+    if (this.applications.length === 0) {
       throw new ConfigClientError("No applications configured");
     }
 
+    const results = await Promise.allSettled(this.applications.map((app) => this.fetchApplication(app)));
+    const responses: ConfigResponse[] = [];
+    const errors: Record<string, ConfigClientError> = {};
+
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        responses.push(result.value);
+      } else if (this.mode === "optional" && result.reason instanceof ConfigClientError) {
+        errors[this.applications[i]] = result.reason;
+      } else {
+        throw result.reason;
+      }
+    });
+
+    if (responses.length === 0) {
+      return { response: null, errors, responses };
+    }
+
     // Merge responses
     // The last application in the list should have the highest priority.
     // In ConfigResponse, propertySources[0] has the highest priority.
     // So we reverse the responses (last app becomes first) and then flatMap their propertySources.
-    const mergedPropertySources = [...responses].reverse().flatMap((res) => res.propertySources);
+    const mergedPropertySources = [...responses]
+      .reverse()
+      .flatMap((res) => res.propertySources.map((propertySource) => ({ ...propertySource, application: res.name })));
 
     // Use metadata from the last (most specific) application
     const mainResponse = responses[responses.length - 1];
@@ -170,84 +709,488 @@ export class ConfigClient {
       propertySources: mergedPropertySources,
     };
 
-    return new Config(mergedResponse);
+    return { response: mergedResponse, errors, responses };
+  }
+
+  /**
+   * Fetch and validate the response of one application
+   * A 304 or an unchanged version returns the previous response object.
+   */
+  private async fetchApplication(app: string): Promise<ConfigResponse> {
+    if (this.backend) {
+      return this.remember(app, await this.backend.environment(app, [...this.profiles], this.label));
+    }
+
+    const previous = this.conditional ? this.revisions.get(app) : undefined;
+    const path = `/${app}/${this.profileString}/${this.label}`;
+    const response = await this.fetchWithRetry(path, previous?.etag ? { "If-None-Match": previous.etag } : {});
+
+    if (response.status === 304 && previous) {
+      this.counters.notModified++;
+      this.telemetry.increment("config_client.responses", { result: "not_modified" });
+      return previous.response;
+    }
+
+    let body: ConfigResponse;
+
+    try {
+      body = (await response.json()) as ConfigResponse;
+    } catch (error) {
+      throw new ConfigInvalidResponseError(
+        `Config server returned invalid JSON for ${app}: ${(error as Error).message}`,
+        response.status,
+        response.url || undefined
+      );
+    }
+
+    if (!body || typeof body !== "object" || !Array.isArray(body.propertySources)) {
+      throw new ConfigInvalidResponseError(
+        `Config server response for ${app} has no propertySources`,
+        response.status,
+        response.url || undefined
+      );
+    }
+
+    return this.remember(app, body, response.headers.get("ETag") ?? undefined);
+  }
+
+  /**
+   * Remember the latest response of an application
+   * @returns the previous response object if version and state are unchanged, else the new one
+   */
+  private remember(app: string, response: ConfigResponse, etag?: string): ConfigResponse {
+    if (!this.conditional) return response;
+
+    const previous = this.revisions.get(app);
+    const unchanged =
+      previous !== undefined &&
+      typeof response.version === "string" &&
+      response.version === previous.response.version &&
+      (response.state ?? null) === (previous.response.state ?? null);
+
+    if (unchanged) {
+      this.counters.unchanged++;
+      this.telemetry.increment("config_client.responses", { result: "unchanged" });
+      this.revisions.set(app, { response: previous.response, etag: etag ?? previous.etag });
+      return previous.response;
+    }
+
+    this.counters.misses++;
+    this.telemetry.increment("config_client.responses", { result: "modified" });
+    this.revisions.set(app, { response, etag });
+    return response;
+  }
+
+  /**
+   * Load two profile sets or labels and compare them
+   * Omitted target fields use this client's profiles and label; sensitive values are masked by default.
+   * @example
+   * ```typescript
+   * const diff = await client.diff({ label: 'main' }, { label: 'release' });
+   * ```
+   */
+  async diff(from: ConfigDiffTarget, to: ConfigDiffTarget, options: DiffOptions = {}): Promise<ConfigDiff> {
+    const [before, after] = await Promise.all([this.withTarget(from).load(), this.withTarget(to).load()]);
+    return diffConfig(before, after, { sensitiveKeys: this.sensitiveKeys, ...options });
+  }
+
+  /**
+   * Auto refresh watcher factory
+   * Call `start()` on the returned watcher to begin polling.
+   * @param options - Watch options
+   * @returns ConfigWatcher instance
+   */
+  watch(options?: WatchOptions): ConfigWatcher {
+    return new ConfigWatcher(this, options);
   }
 
   /**
    * Config load (YAML)
-   * Only loads the first application's configuration
+   * Loads `/{label}/{app}-{profiles}.yml` for every application; multiple applications are merged.
    * @returns YAML string
    */
-  async loadAsYaml(): Promise<string> {
-    const app = this.applications[0];
-    const url = `${this.endpoint}/${app}-${this.profiles[0]}.yml`;
-    const response = await this.fetchWithRetry(url);
-    return response.text();
+  async loadAsYaml(options?: FormatLoadOptions): Promise<string> {
+    return this.loadFormatted("yaml", options);
   }
 
   /**
    * Config load (Properties)
-   * Only loads the first application's configuration
+   * Loads `/{label}/{app}-{profiles}.properties` for every application; multiple applications are merged.
    * @returns Properties string
    */
-  async loadAsProperties(): Promise<string> {
-    const app = this.applications[0];
-    const url = `${this.endpoint}/${app}-${this.profiles[0]}.properties`;
-    const response = await this.fetchWithRetry(url);
-    return response.text();
+  async loadAsProperties(options?: FormatLoadOptions): Promise<string> {
+    return this.loadFormatted("properties", options);
   }
 
   /**
    * Config load (Json)
-   * Only loads the first application's configuration
+   * Loads `/{label}/{app}-{profiles}.json` for every application; multiple applications are merged.
    * @returns JSON string
    */
-  async loadAsJson(): Promise<string> {
-    const app = this.applications[0];
-    const url = `${this.endpoint}/${app}-${this.profiles[0]}.json`;
-    const response = await this.fetchWithRetry(url);
-    return response.text();
+  async loadAsJson(options?: FormatLoadOptions): Promise<string> {
+    return this.loadFormatted("json", options);
   }
 
   /**
    * Config load (various)
    * @param format - response type('json' | 'yaml' | 'properties')
+   * @param options - `target: 'object'` returns the parsed nested object instead of the raw text
+   */
+  async loadAs(format: ResponseFormat, options?: LoadAsOptions & { target?: "text" }): Promise<string>;
+  async loadAs(format: ResponseFormat, options: LoadAsOptions & { target: "object" }): Promise<Record<string, unknown>>;
+  async loadAs(format: ResponseFormat, options: LoadAsOptions = {}): Promise<string | Record<string, unknown>> {
+    if (!(format in FORMAT_EXTENSIONS)) {
+      throw new ConfigClientError(`Unsupported format: ${format}`);
+    }
+
+    if (options.target === "object") {
+      if (this.backend) return (await this.loadBackendConfig(options)).toObject();
+
+      const texts = await this.fetchFormatted(format, options);
+      return this.mergeFormatted(format, texts).toObject();
+    }
+
+    return this.loadFormatted(format, options);
+  }
+
+  /**
+   * Formatted text of all applications (a single application's text is returned as served)
    */
-  async loadAs(format: ResponseFormat): Promise<string> {
+  private async loadFormatted(format: ResponseFormat, options: FormatLoadOptions = {}): Promise<string> {
+    let config: Config;
+
+    if (this.backend) {
+      // backends have no formatted endpoints: serialize the merged environment like the server would
+      config = await this.loadBackendConfig(options);
+    } else {
+      const texts = await this.fetchFormatted(format, options);
+      if (texts.length === 1) return texts[0];
+      config = this.mergeFormatted(format, texts);
+    }
+
     switch (format) {
       case "yaml":
-        return this.loadAsYaml();
+        return config.toYaml();
       case "properties":
-        return this.loadAsProperties();
+        return config.toProperties();
       case "json":
-        return this.loadAsJson();
-      default:
-        throw new ConfigClientError(`Unsupported format: ${format}`);
+        return config.toJSON({ sanitize: false });
+    }
+  }
+
+  /**
+   * Merged backend environment as the formatted endpoints would resolve it
+   */
+  private async loadBackendConfig(options: FormatLoadOptions): Promise<Config> {
+    const { response, errors } = await this.fetchMergedResponse();
+    if (!response) throw Object.values(errors)[0];
+    return new Config(response, { placeholders: options.resolvePlaceholders ?? true });
+  }
+
+  /**
+   * Formatted text of each application, in application order
+   */
+  private fetchFormatted(format: ResponseFormat, options: FormatLoadOptions): Promise<string[]> {
+    const query = options.resolvePlaceholders === undefined ? "" : `?resolvePlaceholders=${options.resolvePlaceholders}`;
+
+    return Promise.all(
+      this.applications.map(async (app) => {
+        const path = `/${this.label}/${app}-${this.profileString}.${FORMAT_EXTENSIONS[format]}${query}`;
+        const response = await this.fetchWithRetry(path);
+        return response.text();
+      })
+    );
+  }
+
+  /**
+   * Formatted texts merged like property sources (later applications win, lists are replaced)
+   */
+  private mergeFormatted(format: ResponseFormat, texts: string[]): Config {
+    const propertySources = texts
+      .map((text, i) => ({
+        name: `${this.applications[i]}-${this.profileString}.${FORMAT_EXTENSIONS[format]}`,
+        application: this.applications[i],
+        source: this.parseFormatted(format, text),
+      }))
+      .reverse();
+
+    return new Config(
+      {
+        name: this.applications.join(","),
+        profiles: [...this.profiles],
+        label: this.label,
+        version: null,
+        state: null,
+        propertySources,
+      },
+      { placeholders: false }
+    );
+  }
+
+  /**
+   * Formatted text to flat properties
+   */
+  private parseFormatted(format: ResponseFormat, text: string): Record<string, unknown> {
+    try {
+      switch (format) {
+        case "yaml":
+          return Object.assign({}, ...parseYaml(text).map((document) => flatten(document)));
+        case "properties":
+          return parseProperties(text);
+        case "json":
+          return flatten(JSON.parse(text));
+      }
+    } catch (error) {
+      throw new ConfigInvalidResponseError(`Config server returned invalid ${format}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Plain-text resource file (`/{app}/{profiles}/{label}/{path}`)
+   * Served from the cache when the server is unreachable, if a cache is configured.
+   * @param path - File path in the config repository (ex. 'nginx/nginx.conf')
+   * @returns File content (UTF-8)
+   */
+  async getResource(path: string, options: ResourceOptions = {}): Promise<string> {
+    const query = options.resolvePlaceholders === undefined ? "" : `?resolvePlaceholders=${options.resolvePlaceholders}`;
+    const content = await this.fetchResource(`${this.resourcePath(path)}${query}`, {});
+    return content.toString("utf8");
+  }
+
+  /**
+   * Binary resource file (served as is, no placeholder resolution)
+   * Served from the cache when the server is unreachable, if a cache is configured.
+   * @param path - File path in the config repository (ex. 'certs/keystore.p12')
+   */
+  async getResourceBuffer(path: string): Promise<Buffer> {
+    return this.fetchResource(this.resourcePath(path), { Accept: "application/octet-stream" });
+  }
+
+  /**
+   * Binary resource file streamed to disk (not cached)
+   * The file is written next to the destination first and renamed when complete.
+   * @param path - File path in the config repository
+   * @param destination - Local file path
+   */
+  async downloadResource(path: string, destination: string): Promise<void> {
+    const response = await this.fetchWithRetry(this.resourcePath(path), { Accept: "application/octet-stream" });
+    const temp = `${destination}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+      if (response.body) {
+        await pipeline(Readable.fromWeb(response.body as NodeReadableStream), createWriteStream(temp));
+      } else {
+        await pipeline(Readable.from([]), createWriteStream(temp));
+      }
+      await rename(temp, destination);
+    } catch (error) {
+      await unlink(temp).catch(() => undefined);
+      throw new ConfigClientError(`Cannot write resource ${path} to ${destination}: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Resource request path (path segments are URL encoded)
+   */
+  private resourcePath(path: string): string {
+    const encoded = path
+      .split("/")
+      .filter((segment) => segment !== "")
+      .map(encodeURIComponent)
+      .join("/");
+
+    return `/${this.applications.join(",")}/${this.profileString}/${this.label}/${encoded}`;
+  }
+
+  /**
+   * Resource fetch with cache write and stale fallback
+   */
+  private async fetchResource(path: string, headers: Record<string, string>): Promise<Buffer> {
+    const key = buildCacheKey(this.endpoints.all.join(","), this.applications, this.profiles, this.label, path);
+    let content: Buffer;
+
+    try {
+      const response = await this.fetchWithRetry(path, headers);
+      content = Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      const cached = this.cache ? await this.cache.get(key).catch(() => null) : null;
+
+      if (cached && "resource" in cached && Date.now() - cached.cachedAt <= this.cacheMaxAge) {
+        return Buffer.from(cached.resource, "base64");
+      }
+
+      throw error;
+    }
+
+    // cache write is best-effort, like load()
+    await this.cache?.set(key, { resource: content.toString("base64"), cachedAt: Date.now() }).catch(() => undefined);
+
+    return content;
+  }
+
   /**
    * health check
+   * Single fast probe (no retry), see health() for the details.
    * @returns response status true/false
    */
-  async healthCheck(): Promise<boolean> {
+  async healthCheck(options?: DiagnosticsOptions): Promise<boolean> {
+    return (await this.health(options)).up;
+  }
+
+  /**
+   * Config Server health with its components (`/actuator/health`)
+   * Never throws: an unreachable server is reported as 'DOWN' with the reason in `error`.
+   */
+  async health(options: DiagnosticsOptions = {}): Promise<ConfigServerHealth> {
+    const endpoint = options.endpoint ?? this.endpoints.preferred();
+    const startedAt = Date.now();
+
+    if (endpoint === undefined) {
+      return {
+        status: "UNKNOWN",
+        up: false,
+        endpoint: "",
+        responseTime: 0,
+        error: "No config server endpoint configured",
+      };
+    }
+    let response: Response;
+
     try {
-      const url = `${this.endpoint}/actuator/health`;
-      const response = await this.fetchWithRetry(url);
-      return response.ok;
+      response = await this.actuatorRequest(endpoint, "/actuator/health", options);
+    } catch (error) {
+      return { status: "DOWN", up: false, endpoint, responseTime: Date.now() - startedAt, error: (error as Error).message };
+    }
+
+    // a DOWN server answers 503 with the health body
+    const body = await response.json().catch(() => undefined);
+    const base = { endpoint, statusCode: response.status, responseTime: Date.now() - startedAt };
+
+    try {
+      const health = parseHealthComponent(body);
+      return { ...health, up: health.status === "UP", ...base };
     } catch {
-      return false;
+      return {
+        status: response.ok ? "UP" : "DOWN",
+        up: response.ok,
+        ...base,
+        error: `Invalid health response (${response.status})`,
+      };
     }
   }
 
+  /**
+   * Config Server build and application info (`/actuator/info`)
+   */
+  async info(options: DiagnosticsOptions = {}): Promise<Record<string, unknown>> {
+    return this.actuatorJson<Record<string, unknown>>("/actuator/info", options);
+  }
+
+  /**
+   * Config Server's own environment (`/actuator/env`)
+   * Values are masked by the server unless it is configured to show them.
+   */
+  async environment(options: DiagnosticsOptions = {}): Promise<ActuatorEnvironment> {
+    return this.actuatorJson<ActuatorEnvironment>("/actuator/env", options);
+  }
+
+  /**
+   * Actuator JSON request (single attempt, typed errors)
+   */
+  private async actuatorJson<T>(path: string, options: DiagnosticsOptions): Promise<T> {
+    const endpoint = options.endpoint ?? this.endpoints.preferred();
+
+    if (endpoint === undefined) {
+      throw new ConfigClientError(`No config server endpoint configured for ${path}`);
+    }
+
+    const url = `${endpoint}${path}`;
+    const response = await this.actuatorRequest(endpoint, path, options);
+
+    if (!response.ok) {
+      throw new (errorClassOf(response.status))(
+        this.authenticator.redact(`Config server returned ${response.status}: ${response.statusText}`),
+        response.status,
+        url
+      );
+    }
+
+    try {
+      return (await response.json()) as T;
+    } catch (error) {
+      throw new ConfigInvalidResponseError(
+        `Config server returned invalid JSON for ${path}: ${(error as Error).message}`,
+        response.status,
+        url
+      );
+    }
+  }
+
+  /**
+   * Single actuator request with the diagnostics timeout
+   */
+  private actuatorRequest(endpoint: string, path: string, options: DiagnosticsOptions): Promise<Response> {
+    return this.request(
+      `${endpoint.replace(/\/+$/, "")}${path}`,
+      { Accept: "application/vnd.spring-boot.actuator.v3+json, application/json" },
+      options.timeout ?? DEFAULT_OPTIONS.diagnosticsTimeout
+    );
+  }
+
   /**
    * Client infomation string value
    */
   toString(): string {
-    return `ConfigClient(endpoint=${this.endpoint}, applications=[${this.applications.join(
+    return `ConfigClient(endpoint=${this.endpoints.all.join(", ")}, applications=[${this.applications.join(
       ", "
-    )}], profiles=[${this.profiles.join(", ")}], label=${this.label})`;
+    )}], profiles=[${this.profiles.join(", ")}], label=${this.label}, auth=${this.authenticator})`;
+  }
+}
+
+/**
+ * Error class of an HTTP error status
+ */
+function errorClassOf(statusCode: number): typeof ConfigClientError {
+  if (statusCode === 404) return ConfigNotFoundError;
+  if (statusCode === 401 || statusCode === 403) return ConfigUnauthorizedError;
+  return ConfigClientError;
+}
+
+/**
+ * Actuator health body to HealthComponent
+ * Spring Boot 2.2+ nests components under `components`, older versions under `details`.
+ */
+function parseHealthComponent(body: unknown): HealthComponent {
+  const { status, details, components } = body as { status?: unknown; details?: unknown; components?: unknown };
+
+  if (typeof status !== "string") {
+    throw new ConfigInvalidResponseError("Health response has no status");
   }
+
+  const isComponents = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" &&
+    value !== null &&
+    Object.values(value).every((item) => typeof (item as { status?: unknown })?.status === "string");
+
+  const nested = components ?? (isComponents(details) && Object.keys(details).length > 0 ? details : undefined);
+  const result: HealthComponent = { status };
+
+  if (details && nested !== details) result.details = details as Record<string, unknown>;
+  if (isComponents(nested)) {
+    result.components = Object.fromEntries(
+      Object.entries(nested).map(([name, component]) => [name, parseHealthComponent(component)])
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Directory of a `file:` endpoint
+ * ex) 'file:./config-repo' -> './config-repo', 'file:///srv/config' -> '/srv/config'
+ */
+function fileDirectory(endpoint: string): string {
+  return endpoint.startsWith("file://") ? fileURLToPath(endpoint) : endpoint.slice("file:".length);
 }
 
 /**
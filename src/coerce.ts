@@ -0,0 +1,105 @@
+import { ConfigCoercionError } from "./types";
+
+const DURATION_UNITS: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const DATA_SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const TRUE_VALUES = ["true", "on", "yes", "1"];
+const FALSE_VALUES = ["false", "off", "no", "0"];
+
+/**
+ * Number coercion
+ */
+export function toNumber(key: string, value: unknown): number {
+  if (typeof value === "number" && !Number.isNaN(value)) return value;
+
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.trim());
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+
+  throw coercionError(key, value, "number");
+}
+
+/**
+ * Boolean coercion (true/false, on/off, yes/no, 1/0)
+ */
+export function toBoolean(key: string, value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+
+  const normalized = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+
+  throw coercionError(key, value, "boolean");
+}
+
+/**
+ * Duration coercion to milliseconds
+ * ex) 500 -> 500, '30s' -> 30000, '5m' -> 300000, 'PT1H30M' -> 5400000
+ */
+export function toDuration(key: string, value: unknown): number {
+  if (typeof value === "number") return value;
+
+  const text = String(value).trim();
+  const simple = text.match(/^([+-]?\d+(?:\.\d+)?)([a-zA-Z]{0,2})$/);
+
+  if (simple) {
+    const unit = DURATION_UNITS[(simple[2] || "ms").toLowerCase()];
+    if (unit !== undefined) return Number(simple[1]) * unit;
+  }
+
+  const iso = text.match(/^([+-]?)P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+
+  if (iso && /\d/.test(text)) {
+    const [, sign, days, hours, minutes, seconds] = iso;
+    const ms =
+      Number(days ?? 0) * DURATION_UNITS.d +
+      Number(hours ?? 0) * DURATION_UNITS.h +
+      Number(minutes ?? 0) * DURATION_UNITS.m +
+      Number(seconds ?? 0) * DURATION_UNITS.s;
+    return sign === "-" ? -ms : ms;
+  }
+
+  throw coercionError(key, value, "duration");
+}
+
+/**
+ * Data size coercion to bytes (binary units, like Spring DataSize)
+ * ex) 1024 -> 1024, '10MB' -> 10485760
+ */
+export function toDataSize(key: string, value: unknown): number {
+  if (typeof value === "number") return value;
+
+  const match = String(value)
+    .trim()
+    .match(/^([+-]?\d+)([a-zA-Z]{0,2})$/);
+
+  if (match) {
+    const unit = DATA_SIZE_UNITS[(match[2] || "b").toLowerCase()];
+    if (unit !== undefined) return Number(match[1]) * unit;
+  }
+
+  throw coercionError(key, value, "data size");
+}
+
+/**
+ * Coercion error builder
+ */
+function coercionError(key: string, value: unknown, type: string): ConfigCoercionError {
+  return new ConfigCoercionError(`Cannot convert '${key}' value ${JSON.stringify(value)} to ${type}`, key, value);
+}
@@ -1,4 +1,26 @@
-import { ConfigResponse, IConfig } from "./types";
+import { CIPHER_PREFIX } from "./decrypt";
+import { toBoolean, toDataSize, toDuration, toNumber } from "./coerce";
+import { stringifyDotenv, stringifyProperties, stringifyYaml } from "./formats";
+import { resolvePlaceholders } from "./placeholder";
+import { Sanitizer } from "./sanitize";
+import { canonicalKey, keyToEnv, listRoot, parseKey, quoteDottedKeys } from "./keys";
+import { schemaValidator } from "./schema";
+import {
+  ConfigClientError,
+  ConfigDecryptionError,
+  ConfigOptions,
+  ConfigResponse,
+  ConfigSchema,
+  ConfigValidationError,
+  ConfigValidator,
+  EnvExportOptions,
+  EnvInjectOptions,
+  SanitizeOptions,
+  IConfig,
+  InferSchema,
+  PropertyOrigin,
+  TextDecryptor,
+} from "./types";
 
 /**
  * Config Server response wrapper class
@@ -8,11 +30,30 @@ export class Config implements IConfig {
   private readonly _raw: ConfigResponse;
   private readonly _properties: Record<string, unknown>;
   private readonly _flatProperties: Record<string, unknown>;
+  private readonly _stale: boolean;
+  private readonly _cachedAt: number | null;
+  private readonly _decryptionErrors: Record<string, ConfigDecryptionError> = {};
+  private readonly _loadErrors: Record<string, ConfigClientError>;
+  private readonly _relaxedKeys: Map<string, string>;
+  private readonly _sanitizer: Sanitizer;
 
-  constructor(response: ConfigResponse) {
+  constructor(response: ConfigResponse, options: ConfigOptions = {}) {
     this._raw = response;
-    this._flatProperties = this.mergePropertySources();
+    this._stale = options.stale ?? false;
+    this._cachedAt = options.cachedAt ?? null;
+    this._loadErrors = options.loadErrors ?? {};
+    this._sanitizer = new Sanitizer(options.sensitiveKeys);
+
+    const merged = this.mergePropertySources();
+    if (options.decryptor) {
+      this.decryptProperties(merged, options.decryptor);
+    }
+    this._flatProperties =
+      options.placeholders === false
+        ? merged
+        : resolvePlaceholders(merged, typeof options.placeholders === "function" ? options.placeholders : undefined);
     this._properties = this.unflatten(this._flatProperties);
+    this._relaxedKeys = this.buildRelaxedKeys();
   }
 
   get raw(): ConfigResponse {
@@ -39,6 +80,22 @@ export class Config implements IConfig {
     return this._raw.version;
   }
 
+  get stale(): boolean {
+    return this._stale;
+  }
+
+  get cachedAt(): number | null {
+    return this._cachedAt;
+  }
+
+  get decryptionErrors(): Record<string, ConfigDecryptionError> {
+    return { ...this._decryptionErrors };
+  }
+
+  get loadErrors(): Record<string, ConfigClientError> {
+    return { ...this._loadErrors };
+  }
+
   /**
    * PropertySource merge
    */
@@ -49,29 +106,69 @@ export class Config implements IConfig {
     const sources = [...this._raw.propertySources].reverse();
 
     for (const propertySource of sources) {
+      // a higher priority source's list replaces (not merges with) lower priority list entries,
+      // whether it is written with indexed keys (a.list[0]) or as a comma separated value (a.list=x,y)
+      const roots = new Set(Object.keys(propertySource.source).map((key) => listRoot(key) ?? key));
+
+      for (const key of Object.keys(merged)) {
+        const root = listRoot(key);
+        if (root !== null ? roots.has(root) : roots.has(key)) {
+          delete merged[key];
+        }
+      }
+
       Object.assign(merged, propertySource.source);
     }
 
     return merged;
   }
 
+  /**
+   * `{cipher}` value decryption
+   * Failed keys are removed (never exposed as ciphertext) and recorded in decryptionErrors.
+   */
+  private decryptProperties(properties: Record<string, unknown>, decryptor: TextDecryptor): void {
+    for (const [key, value] of Object.entries(properties)) {
+      if (typeof value !== "string" || !value.startsWith(CIPHER_PREFIX)) continue;
+
+      try {
+        properties[key] = decryptor.decrypt(value.slice(CIPHER_PREFIX.length));
+      } catch (error) {
+        delete properties[key];
+        this._decryptionErrors[key] = new ConfigDecryptionError(
+          `Cannot decrypt '${key}': ${(error as Error).message}`,
+          key
+        );
+      }
+    }
+  }
+
   /**
    * flat object to nested object converter
    * ex) { 'database.host': 'localhost' } -> { database: { host: 'localhost' } }
+   * ex) { 'servers[0].host': 'a', 'map[some.key]': 1 } -> { servers: [{ host: 'a' }], map: { 'some.key': 1 } }
    */
   private unflatten(obj: Record<string, unknown>): Record<string, unknown> {
     const result: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(obj)) {
-      const keys = key.split(".");
-      let current: Record<string, unknown> = result;
+      const keys = parseKey(key);
+      if (keys.length === 0) continue;
+
+      let current: Record<string | number, unknown> = result;
 
       for (let i = 0; i < keys.length - 1; i++) {
         const k = keys[i];
-        if (!(k in current) || typeof current[k] !== "object" || current[k] === null) {
-          current[k] = {};
+        const container = typeof keys[i + 1] === "number" ? [] : {};
+        if (
+          !(k in current) ||
+          typeof current[k] !== "object" ||
+          current[k] === null ||
+          Array.isArray(current[k]) !== Array.isArray(container)
+        ) {
+          current[k] = container;
         }
-        current = current[k] as Record<string, unknown>;
+        current = current[k] as Record<string | number, unknown>;
       }
 
       current[keys[keys.length - 1]] = value;
@@ -81,26 +178,170 @@ export class Config implements IConfig {
   }
 
   /**
-   * comma-separated key notation property getter
+   * relaxed binding index (canonical key -> flat key)
+   * when several flat keys share a canonical form, the one from the highest priority source wins
    */
-  get<T = unknown>(key: string, defaultValue?: T): T | undefined {
+  private buildRelaxedKeys(): Map<string, string> {
+    const index = new Map<string, string>();
+    const keys = [
+      ...this._raw.propertySources.flatMap((propertySource) => Object.keys(propertySource.source)),
+      ...Object.keys(this._flatProperties),
+    ];
+
+    for (const key of keys) {
+      const canonical = canonicalKey(key);
+      if (key in this._flatProperties && !index.has(canonical)) {
+        index.set(canonical, key);
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * value lookup: exact flat key -> nested path -> relaxed key
+   */
+  private lookup(key: string): unknown {
     // search in flattened properties first
     if (key in this._flatProperties) {
-      return this._flatProperties[key] as T;
+      return this._flatProperties[key];
     }
 
     // search nested properties
-    const keys = key.split(".");
+    const keys = parseKey(key);
     let current: unknown = this._properties;
 
     for (const k of keys) {
       if (current === null || current === undefined || typeof current !== "object") {
-        return defaultValue;
+        current = undefined;
+        break;
       }
-      current = (current as Record<string, unknown>)[k];
+      current = (current as Record<string | number, unknown>)[k];
+    }
+
+    if (current !== undefined) {
+      return current;
     }
 
-    return current !== undefined ? (current as T) : defaultValue;
+    // relaxed binding (e.g. 'database.max-pool-size' for 'database.maxPoolSize')
+    const relaxedKey = this._relaxedKeys.get(canonicalKey(key));
+    return relaxedKey !== undefined ? this._flatProperties[relaxedKey] : undefined;
+  }
+
+  /**
+   * comma-separated key notation property getter
+   */
+  get<T = unknown>(key: string, defaultValue?: T): T | undefined {
+    const value = this.lookup(key);
+    return value !== undefined ? (value as T) : defaultValue;
+  }
+
+  /**
+   * number getter
+   */
+  getNumber(key: string, defaultValue?: number): number | undefined {
+    const value = this.lookup(key);
+    return value !== undefined ? toNumber(key, value) : defaultValue;
+  }
+
+  /**
+   * boolean getter
+   */
+  getBoolean(key: string, defaultValue?: boolean): boolean | undefined {
+    const value = this.lookup(key);
+    return value !== undefined ? toBoolean(key, value) : defaultValue;
+  }
+
+  /**
+   * duration getter (milliseconds)
+   */
+  getDuration(key: string, defaultValue?: number): number | undefined {
+    const value = this.lookup(key);
+    return value !== undefined ? toDuration(key, value) : defaultValue;
+  }
+
+  /**
+   * data size getter (bytes)
+   */
+  getDataSize(key: string, defaultValue?: number): number | undefined {
+    const value = this.lookup(key);
+    return value !== undefined ? toDataSize(key, value) : defaultValue;
+  }
+
+  /**
+   * list getter (array, comma-separated string or indexed keys)
+   */
+  getList<T = string>(key: string, defaultValue?: T[]): T[] | undefined {
+    const value = this.lookup(key);
+
+    if (Array.isArray(value)) {
+      return value as T[];
+    }
+    if (typeof value === "string") {
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item !== "") as T[];
+    }
+    if (value !== undefined) {
+      return [value as T];
+    }
+
+    // indexed keys: 'servers[0]', 'servers[1]', ...
+    const canonical = canonicalKey(key);
+    const items: [number, unknown][] = [];
+
+    for (const [flatKey, flatValue] of Object.entries(this._flatProperties)) {
+      const match = flatKey.match(/^(.+)\[(\d+)\]$/);
+      if (match && canonicalKey(match[1]) === canonical) {
+        items.push([Number(match[2]), flatValue]);
+      }
+    }
+
+    if (items.length === 0) {
+      return defaultValue;
+    }
+
+    return items.sort(([a], [b]) => a - b).map(([, item]) => item as T);
+  }
+
+  /**
+   * property origin getter
+   */
+  origin(key: string): PropertyOrigin | undefined {
+    const flatKey = key in this._flatProperties ? key : this._relaxedKeys.get(canonicalKey(key));
+    if (flatKey === undefined) {
+      return undefined;
+    }
+
+    // propertySources are ordered by priority, so the first match wins
+    const [winner, ...shadowed] = this._raw.propertySources
+      .filter((propertySource) => flatKey in propertySource.source)
+      .map((propertySource) => ({
+        source: propertySource.name,
+        application: propertySource.application,
+        value: propertySource.source[flatKey],
+      }));
+
+    if (!winner) {
+      return undefined;
+    }
+
+    return { key: flatKey, ...winner, shadowed };
+  }
+
+  /**
+   * all property origins getter
+   */
+  origins(): Record<string, PropertyOrigin> {
+    const result: Record<string, PropertyOrigin> = {};
+
+    for (const key of Object.keys(this._flatProperties)) {
+      const origin = this.origin(key);
+      if (origin) result[key] = origin;
+    }
+
+    return result;
   }
 
   /**
@@ -110,6 +351,48 @@ export class Config implements IConfig {
     return this.get(key) !== undefined;
   }
 
+  /**
+   * Schema / validator binding
+   * Validates the whole config (or the subtree at `prefix`) and returns the typed result.
+   * @param schema - ConfigSchema or ConfigValidator (e.g. fromZod(schema))
+   * @param prefix - Key prefix to bind (e.g. 'database')
+   * @throws ConfigValidationError listing every offending key and its property source
+   */
+  bind<const S extends ConfigSchema>(schema: S, prefix?: string): InferSchema<S>;
+  bind<T>(validator: ConfigValidator<T>, prefix?: string): T;
+  bind(schema: ConfigSchema | ConfigValidator<unknown>, prefix?: string): unknown {
+    const validator =
+      typeof schema.validate === "function" ? (schema as ConfigValidator<unknown>) : schemaValidator(schema as ConfigSchema);
+    const target = prefix ? this.get(prefix) : this._properties;
+    const result = validator.validate(target === undefined ? {} : JSON.parse(JSON.stringify(target)));
+
+    if (!result.issues) {
+      return result.value;
+    }
+
+    const issues = result.issues.map((issue) => {
+      const key = [prefix, issue.key].filter(Boolean).join(".");
+      return { ...issue, key, source: issue.source ?? this.sourceOf(key) };
+    });
+
+    throw new ConfigValidationError(
+      `Config validation failed:\n${issues
+        .map((issue) => `  - ${issue.key}: ${issue.message}${issue.source ? ` (${issue.source})` : ""}`)
+        .join("\n")}`,
+      issues
+    );
+  }
+
+  /**
+   * Name of the highest priority property source defining the key (or a key below it)
+   */
+  private sourceOf(key: string): string | undefined {
+    const source = this._raw.propertySources.find((ps) =>
+      Object.keys(ps.source).some((k) => k === key || k.startsWith(`${key}.`) || k.startsWith(`${key}[`))
+    );
+    return source?.name;
+  }
+
   /**
    * flat object return
    */
@@ -127,17 +410,85 @@ export class Config implements IConfig {
   /**
    * all properties iterator
    */
-  forEach(callback: (value: unknown, key: string) => void): void {
+  forEach(callback: (value: unknown, key: string) => void, options: SanitizeOptions = {}): void {
     for (const [key, value] of Object.entries(this._flatProperties)) {
-      callback(value, key);
+      callback(options.sanitize ? this._sanitizer.sanitize(key, value) : value, key);
     }
   }
 
+  /**
+   * sensitive key checker
+   */
+  isSensitive(key: string): boolean {
+    return this._sanitizer.isSensitive(key);
+  }
+
+  /**
+   * flattened object return (sensitive values masked)
+   */
+  toSanitizedFlatObject(): Record<string, unknown> {
+    return this._sanitizer.sanitizeAll(this._flatProperties);
+  }
+
+  /**
+   * nested object return (sensitive values masked)
+   */
+  toSanitizedObject(): Record<string, unknown> {
+    return this.unflatten(this.toSanitizedFlatObject());
+  }
+
+  /**
+   * YAML serializer (raw values unless `sanitize: true`)
+   * Map keys containing dots are written as '[some.key]' to keep their flat key.
+   */
+  toYaml(options: SanitizeOptions = {}): string {
+    return stringifyYaml(quoteDottedKeys(options.sanitize ? this.toSanitizedObject() : this._properties));
+  }
+
+  /**
+   * .properties serializer (raw values unless `sanitize: true`)
+   */
+  toProperties(options: SanitizeOptions = {}): string {
+    return stringifyProperties(options.sanitize ? this.toSanitizedFlatObject() : this._flatProperties);
+  }
+
+  /**
+   * dotenv serializer (raw values unless `sanitize: true`)
+   * ex) 'servers[0].host' -> 'SERVERS_0_HOST', 'max-pool-size' -> 'MAXPOOLSIZE'
+   */
+  toDotenv(options: EnvExportOptions = {}): string {
+    return stringifyDotenv(options.sanitize ? this.toSanitizedFlatObject() : this._flatProperties, options.prefix);
+  }
+
+  /**
+   * process.env injector
+   * Variables that are already set are kept unless `overwrite: true` is passed.
+   * @returns names of the variables that were set
+   */
+  injectEnv(options: EnvInjectOptions = {}): string[] {
+    const env = options.env ?? process.env;
+    const injected: string[] = [];
+
+    this.forEach(
+      (value, key) => {
+        const name = `${options.prefix ?? ""}${keyToEnv(key)}`;
+        if (!options.overwrite && env[name] !== undefined) return;
+
+        env[name] = value === null || value === undefined ? "" : String(value);
+        injected.push(name);
+      },
+      { sanitize: options.sanitize }
+    );
+
+    return injected;
+  }
+
   /**
    * Strong to JSON conversion
+   * Unlike the other exports, sensitive values are masked unless `sanitize: false` is passed; use get() for raw values.
    */
-  toJSON(): string {
-    return JSON.stringify(this._properties, null, 2);
+  toJSON(options: SanitizeOptions = {}): string {
+    return JSON.stringify(options.sanitize === false ? this._properties : this.toSanitizedObject(), null, 2);
   }
 
   /**
@@ -146,6 +497,6 @@ export class Config implements IConfig {
   toString(): string {
     return `Config(name=${this.name}, profiles=[${this.profiles.join(", ")}], label=${this.label}, version=${
       this.version
-    })`;
+    }${this._stale ? ", stale=true" : ""})`;
   }
 }
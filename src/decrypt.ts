@@ -0,0 +1,131 @@
+import { constants, createDecipheriv, pbkdf2Sync, privateDecrypt } from "node:crypto";
+import { ConfigDecryptionError, DecryptionOptions, RsaKeyOptions, TextDecryptor } from "./types";
+
+/**
+ * `{cipher}` value prefix
+ */
+export const CIPHER_PREFIX = "{cipher}";
+
+const DEFAULT_SALT = "deadbeef";
+
+/**
+ * Spring Cloud Config compatible `{cipher}` decryptor
+ * - symmetric keys: Spring Security `Encryptors.text(key, salt)` (hex, AES/CBC, PBKDF2WithHmacSHA1)
+ * - RSA keys: spring-security-rsa `RsaSecretEncryptor` (base64, RSA encrypted secret + AES payload)
+ */
+export class CipherDecryptor implements TextDecryptor {
+  private readonly defaultKey?: string | RsaKeyOptions;
+  private readonly keys: Record<string, string | RsaKeyOptions>;
+  private readonly salt: string;
+  private readonly derivedKeys = new Map<string, Buffer>();
+
+  constructor(options: DecryptionOptions) {
+    this.defaultKey = options.key;
+    this.keys = options.keys ?? {};
+    this.salt = options.salt ?? DEFAULT_SALT;
+
+    // options read from JSON or untyped callers may still carry Spring's default algorithm
+    for (const key of [this.defaultKey, ...Object.values(this.keys)]) {
+      if (typeof key === "object" && key.algorithm !== "OAEP") {
+        throw new ConfigDecryptionError(
+          "RSA PKCS#1 v1.5 keys are not supported: Node.js rejects this padding for private decryption " +
+            "(CVE-2023-46809). Re-encrypt the values with encrypt.rsa.algorithm=OAEP and set algorithm: 'OAEP'"
+        );
+      }
+    }
+  }
+
+  /**
+   * Decrypt a value (with or without the `{cipher}` prefix)
+   */
+  decrypt(value: string): string {
+    const { prefixes, data } = parsePrefixes(value.startsWith(CIPHER_PREFIX) ? value.slice(CIPHER_PREFIX.length) : value);
+    const alias = prefixes.key;
+    const key = alias !== undefined ? this.keys[alias] : this.defaultKey;
+
+    if (key === undefined) {
+      throw new ConfigDecryptionError(alias !== undefined ? `Unknown decryption key alias: ${alias}` : "No decryption key");
+    }
+
+    try {
+      return typeof key === "string" ? this.decryptSymmetric(key, data) : this.decryptRsa(key, data);
+    } catch (error) {
+      throw new ConfigDecryptionError(`Decryption failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * `Encryptors.text` format: hex(iv[16] + AES/CBC ciphertext)
+   */
+  private decryptSymmetric(password: string, data: string): string {
+    const bytes = Buffer.from(data, "hex");
+    return aesDecrypt(this.deriveKey(password, this.salt), bytes, false).toString("utf8");
+  }
+
+  /**
+   * `RsaSecretEncryptor` format: base64(secret length[2] + RSA(secret) + AES payload keyed by hex(secret))
+   */
+  private decryptRsa(key: RsaKeyOptions, data: string): string {
+    const bytes = Buffer.from(data, "base64");
+    const length = bytes.readUInt16BE(0);
+    const secret = privateDecrypt(
+      {
+        key: key.privateKey,
+        padding: constants.RSA_PKCS1_OAEP_PADDING,
+      },
+      bytes.subarray(2, 2 + length)
+    );
+
+    // random secret differs per value, so its derived key is not cached
+    const aesKey = pbkdf2Sync(secret.toString("hex"), Buffer.from(key.salt ?? DEFAULT_SALT, "hex"), 1024, 32, "sha1");
+    return aesDecrypt(aesKey, bytes.subarray(2 + length), key.strong ?? false).toString("utf8");
+  }
+
+  /**
+   * PBKDF2WithHmacSHA1 key derivation (1024 iterations, 256 bit), cached per password
+   */
+  private deriveKey(password: string, salt: string): Buffer {
+    const cacheKey = `${salt}:${password}`;
+    let derived = this.derivedKeys.get(cacheKey);
+
+    if (!derived) {
+      derived = pbkdf2Sync(password, Buffer.from(salt, "hex"), 1024, 32, "sha1");
+      this.derivedKeys.set(cacheKey, derived);
+    }
+
+    return derived;
+  }
+}
+
+/**
+ * `{name:value}` prefix parser
+ * ex) '{key:prod}{secret:x}abcd' -> { prefixes: { key: 'prod', secret: 'x' }, data: 'abcd' }
+ */
+function parsePrefixes(value: string): { prefixes: Record<string, string>; data: string } {
+  const prefixes: Record<string, string> = {};
+  let data = value;
+  let match: RegExpMatchArray | null;
+
+  while ((match = data.match(/^\{([^:}]+):([^}]*)\}/))) {
+    prefixes[match[1]] = match[2];
+    data = data.slice(match[0].length);
+  }
+
+  return { prefixes, data };
+}
+
+/**
+ * AES-256 decryption of iv[16] + ciphertext (+ tag[16] for GCM)
+ */
+function aesDecrypt(key: Buffer, bytes: Buffer, gcm: boolean): Buffer {
+  const iv = bytes.subarray(0, 16);
+
+  if (gcm) {
+    const decipher = createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(bytes.subarray(bytes.length - 16));
+    return Buffer.concat([decipher.update(bytes.subarray(16, bytes.length - 16)), decipher.final()]);
+  }
+
+  const decipher = createDecipheriv("aes-256-cbc", key, iv);
+  return Buffer.concat([decipher.update(bytes.subarray(16)), decipher.final()]);
+}
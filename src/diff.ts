@@ -0,0 +1,103 @@
+import { Config } from "./config";
+import { flatten } from "./keys";
+import { Sanitizer } from "./sanitize";
+import { ConfigDiff, ConfigResponse, DiffOptions, PropertyChange, PropertySourceDiff } from "./types";
+
+/**
+ * default options
+ */
+const DEFAULT_OPTIONS = {
+  sanitize: true,
+  sources: false,
+};
+
+/**
+ * Compare two configurations over their flattened properties
+ * Values are compared before masking, so a changed secret is reported even though both sides show '******'.
+ * ConfigResponse payloads are compared as served (placeholders are not resolved).
+ * @param before - Old configuration
+ * @param after - New configuration
+ */
+export function diffConfig(
+  before: Config | ConfigResponse,
+  after: Config | ConfigResponse,
+  options: DiffOptions = {}
+): ConfigDiff {
+  const from = toConfig(before);
+  const to = toConfig(after);
+  const sanitizer = new Sanitizer(options.sensitiveKeys);
+  const sanitize = options.sanitize ?? DEFAULT_OPTIONS.sanitize;
+  const display = (key: string, value: unknown) => (sanitize ? sanitizer.sanitize(key, value) : value);
+
+  const changes = compareProperties(from.toFlatObject(), to.toFlatObject(), display);
+  const result: ConfigDiff = {
+    fromVersion: from.version,
+    toVersion: to.version,
+    added: changes.filter((change) => change.type === "added"),
+    removed: changes.filter((change) => change.type === "removed"),
+    changed: changes.filter((change) => change.type === "changed"),
+  };
+
+  if (options.sources ?? DEFAULT_OPTIONS.sources) {
+    result.sources = diffSources(from.raw, to.raw, display);
+  }
+
+  return result;
+}
+
+/**
+ * Per property source comparison (sources are matched by name)
+ */
+function diffSources(
+  before: ConfigResponse,
+  after: ConfigResponse,
+  display: (key: string, value: unknown) => unknown
+): PropertySourceDiff[] {
+  const oldSources = new Map(before.propertySources.map((source) => [source.name, flatten(source.source)]));
+  const newSources = new Map(after.propertySources.map((source) => [source.name, flatten(source.source)]));
+  const result: PropertySourceDiff[] = [];
+
+  // new config order first, then the sources that disappeared
+  for (const name of new Set([...newSources.keys(), ...oldSources.keys()])) {
+    const oldProperties = oldSources.get(name);
+    const newProperties = newSources.get(name);
+    const changes = compareProperties(oldProperties ?? {}, newProperties ?? {}, display);
+
+    if (changes.length > 0) {
+      result.push({ source: name, type: !oldProperties ? "added" : !newProperties ? "removed" : "changed", changes });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Flat property comparison
+ * @returns changes in key order
+ */
+function compareProperties(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  display: (key: string, value: unknown) => unknown
+): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!(key in before)) {
+      changes.push({ key, type: "added", newValue: display(key, after[key]) });
+    } else if (!(key in after)) {
+      changes.push({ key, type: "removed", oldValue: display(key, before[key]) });
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.push({ key, type: "changed", oldValue: display(key, before[key]), newValue: display(key, after[key]) });
+    }
+  }
+
+  return changes.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+/**
+ * Config wrapper of a raw payload
+ */
+function toConfig(value: Config | ConfigResponse): Config {
+  return value instanceof Config ? value : new Config(value, { placeholders: false });
+}
@@ -0,0 +1,107 @@
+import { FailoverStrategy } from "./types";
+
+/**
+ * EndpointPool options
+ */
+interface EndpointPoolOptions {
+  strategy: FailoverStrategy;
+  unhealthyTimeout: number;
+  /** Single fast health probe of an endpoint (should use a short timeout) */
+  probe: (endpoint: string) => Promise<boolean>;
+}
+
+/**
+ * Config Server endpoint list with failover ordering and health tracking
+ * Failed endpoints are skipped until `unhealthyTimeout` has passed and a health probe succeeds.
+ */
+export class EndpointPool {
+  private readonly endpoints: string[];
+  private readonly options: EndpointPoolOptions;
+  private readonly unhealthyUntil = new Map<string, number>();
+  private next = 0;
+
+  constructor(endpoints: string[], options: EndpointPoolOptions) {
+    this.endpoints = endpoints;
+    this.options = options;
+  }
+
+  /**
+   * All endpoints
+   */
+  get all(): string[] {
+    return [...this.endpoints];
+  }
+
+  /**
+   * Endpoints to try for one attempt, in order
+   * Healthy endpoints come first; unhealthy ones are kept as a last resort.
+   * Endpoints whose cooldown has passed are probed in the background, or awaited (in parallel)
+   * only when no healthy endpoint is left.
+   */
+  async candidates(): Promise<string[]> {
+    const ordered = this.ordered();
+    const now = Date.now();
+    const healthy = ordered.filter((endpoint) => !this.unhealthyUntil.has(endpoint));
+    const due = ordered.filter((endpoint) => (this.unhealthyUntil.get(endpoint) ?? Infinity) <= now);
+    const probes = due.map((endpoint) => this.probe(endpoint));
+
+    if (healthy.length === 0 && probes.length > 0) {
+      await Promise.all(probes);
+    }
+
+    const recovered = ordered.filter((endpoint) => !this.unhealthyUntil.has(endpoint));
+    return [...recovered, ...ordered.filter((endpoint) => !recovered.includes(endpoint))];
+  }
+
+  /**
+   * Endpoint the next request would prefer, without probing or moving the round-robin cursor
+   */
+  preferred(): string | undefined {
+    return this.endpoints.find((endpoint) => !this.unhealthyUntil.has(endpoint)) ?? this.endpoints[0];
+  }
+
+  /**
+   * Mark an endpoint healthy after a successful request
+   */
+  markHealthy(endpoint: string): void {
+    this.unhealthyUntil.delete(endpoint);
+  }
+
+  /**
+   * Mark an endpoint unhealthy after a connection failure or server error
+   */
+  markUnhealthy(endpoint: string): void {
+    if (this.endpoints.length > 1) {
+      this.unhealthyUntil.set(endpoint, Date.now() + this.options.unhealthyTimeout);
+    }
+  }
+
+  /**
+   * Health probe of an unhealthy endpoint
+   * The cooldown is renewed when the probe starts and again when it fails, so a dead endpoint is not probed
+   * more than once per `unhealthyTimeout`.
+   */
+  private async probe(endpoint: string): Promise<void> {
+    this.markUnhealthy(endpoint);
+
+    if (await this.options.probe(endpoint).catch(() => false)) {
+      this.unhealthyUntil.delete(endpoint);
+    } else {
+      this.markUnhealthy(endpoint);
+    }
+  }
+
+  /**
+   * Endpoints in strategy order
+   */
+  private ordered(): string[] {
+    if (this.options.strategy !== "round-robin") {
+      return [...this.endpoints];
+    }
+
+    const start = this.next % this.endpoints.length;
+    this.next = start + 1;
+
+    return [...this.endpoints.slice(start), ...this.endpoints.slice(0, start)];
+  }
+}
@@ -0,0 +1,527 @@
+import { keyToEnv } from "./keys";
+import { ConfigClientError } from "./types";
+
+/**
+ * Content line of a YAML document
+ */
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+/**
+ * .properties parser (java.util.Properties semantics)
+ * Supports `=`, `:` and whitespace separators, `#`/`!` comments, line continuations and escapes.
+ */
+export function parseProperties(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i].replace(/^[ \t\f]+/, "");
+    if (line === "" || line.startsWith("#") || line.startsWith("!")) continue;
+
+    // odd number of trailing backslashes continues the logical line
+    while (/(^|[^\\])(\\\\)*\\$/.test(line) && i + 1 < lines.length) {
+      line = line.slice(0, -1) + lines[++i].replace(/^[ \t\f]+/, "");
+    }
+
+    let keyEnd = 0;
+    while (keyEnd < line.length && !/[=: \t\f]/.test(line[keyEnd])) {
+      keyEnd += line[keyEnd] === "\\" ? 2 : 1;
+    }
+
+    const key = line.slice(0, keyEnd);
+    const rest = line.slice(keyEnd).replace(/^[ \t\f]*[=:]?[ \t\f]*/, "");
+
+    result[unescapeProperties(key)] = unescapeProperties(rest);
+  }
+
+  return result;
+}
+
+/**
+ * .properties escape decoder
+ */
+function unescapeProperties(value: string): string {
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) => {
+    if (escaped.length === 5) return String.fromCharCode(parseInt(escaped.slice(1), 16));
+    return { t: "\t", n: "\n", r: "\r", f: "\f" }[escaped] ?? escaped;
+  });
+}
+
+/**
+ * .properties serializer (flat keys, one `key=value` line each)
+ */
+export function stringifyProperties(properties: Record<string, unknown>): string {
+  return Object.entries(properties)
+    .map(([key, value]) => {
+      const text = escapeProperties(value === null || value === undefined ? "" : String(value));
+      // separators must be escaped in keys; a leading space in values would be trimmed
+      return `${escapeProperties(key).replace(/[=: #!]/g, "\\$&")}=${text.replace(/^ /, "\\ ")}\n`;
+    })
+    .join("");
+}
+
+/**
+ * dotenv serializer (flat keys converted to environment variable names, one `NAME=value` line each)
+ * Values with whitespace, quotes, `#`, `$` or line breaks are double quoted.
+ * @param prefix - Prefix of every variable name (ex. 'APP_')
+ */
+export function stringifyDotenv(properties: Record<string, unknown>, prefix = ""): string {
+  return Object.entries(properties)
+    .map(([key, value]) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      const quoted = /[\s"'`#$\\]/.test(text)
+        ? `"${text.replace(/[\\"$\n\r]/g, (char) => ({ "\n": "\\n", "\r": "\\r" })[char] ?? `\\${char}`)}"`
+        : text;
+      return `${prefix}${keyToEnv(key)}=${quoted}\n`;
+    })
+    .join("");
+}
+
+/**
+ * .properties escape encoder (backslash and control characters)
+ */
+function escapeProperties(text: string): string {
+  return text.replace(/[\\\t\n\r\f]/g, (char) => ({ "\t": "\\t", "\n": "\\n", "\r": "\\r", "\f": "\\f" })[char] ?? "\\\\");
+}
+
+/**
+ * YAML parser (block/flow collections, scalars, block scalars and multiple documents)
+ * Covers the YAML subset used by Spring configuration files; anchors, aliases and tags are not supported.
+ * @returns one value per `---` separated document
+ */
+export function parseYaml(text: string): unknown[] {
+  const documents: string[][] = [[]];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^---(\s|$)/.test(line)) {
+      documents.push([]);
+      const rest = line.slice(3).trim();
+      if (rest && !rest.startsWith("#")) documents[documents.length - 1].push(rest);
+    } else if (/^\.\.\.(\s|$)/.test(line) || line.startsWith("%")) {
+      continue;
+    } else {
+      documents[documents.length - 1].push(line);
+    }
+  }
+
+  return documents
+    .map((lines) => new YamlParser(lines))
+    .filter((parser) => parser.peek() !== null)
+    .map((parser) => parser.parseDocument());
+}
+
+/**
+ * Block structure YAML parser over the lines of one document
+ */
+class YamlParser {
+  private pos = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  /**
+   * Whole document parser
+   */
+  parseDocument(): unknown {
+    const value = this.parseBlock(0);
+    const rest = this.peek();
+
+    if (rest) {
+      throw new ConfigClientError(`Invalid YAML at line ${this.pos + 1}: ${rest.text}`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Next content line (blank and comment lines are skipped)
+   */
+  peek(): YamlLine | null {
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      const text = stripComment(raw).trimEnd();
+
+      if (text.trim() !== "") {
+        const indent = text.length - text.trimStart().length;
+        return { indent, text: text.trimStart() };
+      }
+
+      this.pos++;
+    }
+
+    return null;
+  }
+
+  /**
+   * Node at the given minimum indent
+   */
+  private parseBlock(indent: number): unknown {
+    const line = this.peek();
+    if (!line || line.indent < indent) return null;
+
+    return isSequenceItem(line.text) ? this.parseSequence(line.indent) : this.parseMapping(line.indent);
+  }
+
+  /**
+   * Block sequence parser
+   */
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+    let line: YamlLine | null;
+
+    while ((line = this.peek()) && line.indent === indent && isSequenceItem(line.text)) {
+      const rest = line.text.slice(1).trimStart();
+
+      if (rest === "") {
+        this.pos++;
+        result.push(this.parseBlock(indent + 1));
+      } else if (isSequenceItem(rest) || splitMappingKey(rest)) {
+        // '- key: value' / '- - item': re-read the rest of the line as a nested block at its own column
+        const column = indent + line.text.length - rest.length;
+        this.lines[this.pos] = " ".repeat(column) + rest;
+        result.push(this.parseBlock(column));
+      } else {
+        this.pos++;
+        result.push(this.parseValue(rest, indent));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Block mapping parser
+   */
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    let line: YamlLine | null;
+
+    while ((line = this.peek()) && line.indent === indent && !isSequenceItem(line.text)) {
+      const entry = splitMappingKey(line.text);
+      if (!entry) {
+        throw new ConfigClientError(`Invalid YAML at line ${this.pos + 1}: ${line.text}`);
+      }
+
+      this.pos++;
+
+      if (entry.rest === "") {
+        const next = this.peek();
+        const nested = next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)));
+        result[entry.key] = nested ? this.parseBlock(next.indent) : null;
+      } else {
+        result[entry.key] = this.parseValue(entry.rest, indent);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Inline value or block scalar (`|`, `>`) parser
+   */
+  private parseValue(text: string, indent: number): unknown {
+    const header = text.match(/^([|>])([+-]?)\s*$/);
+    return header ? this.parseBlockScalar(header[1], header[2], indent) : parseFlow(text);
+  }
+
+  /**
+   * Block scalar parser
+   */
+  private parseBlockScalar(style: string, chomping: string, indent: number): string {
+    const lines: string[] = [];
+    let blockIndent = -1;
+
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      const lineIndent = raw.length - raw.trimStart().length;
+
+      if (raw.trim() !== "") {
+        if (lineIndent <= indent) break;
+        if (blockIndent === -1) blockIndent = lineIndent;
+      }
+
+      lines.push(raw.trim() === "" ? "" : raw.slice(Math.max(blockIndent, 0)));
+      this.pos++;
+    }
+
+    let trailing = 0;
+    while (trailing < lines.length && lines[lines.length - 1 - trailing] === "") trailing++;
+    const content = lines.slice(0, lines.length - trailing);
+
+    const body =
+      style === "|"
+        ? content.join("\n")
+        : content.reduce((folded, line, i) => {
+            if (i === 0) return line;
+            if (line === "") return `${folded}\n`;
+            return folded.endsWith("\n") || line.startsWith(" ") ? `${folded}${line}` : `${folded} ${line}`;
+          }, "");
+
+    if (chomping === "-" || content.length === 0) return body;
+    if (chomping === "+") return body + "\n".repeat(trailing + 1);
+    return `${body}\n`;
+  }
+}
+
+/**
+ * Sequence item checker
+ */
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/**
+ * `key: value` splitter (key may be quoted)
+ */
+function splitMappingKey(text: string): { key: string; rest: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const [key, end] = readQuoted(text, 0);
+    const rest = text.slice(end).trimStart();
+    return rest.startsWith(":") ? { key, rest: rest.slice(1).trim() } : null;
+  }
+
+  const match = text.match(/^([^:]+):(\s+|$)/);
+  if (!match || text.startsWith("{") || text.startsWith("[")) return null;
+
+  return { key: match[1].trim(), rest: text.slice(match[0].length).trim() };
+}
+
+/**
+ * Comment stripper (a `#` outside quotes that starts the line or follows whitespace)
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      // quotes only open a scalar at the start of a token
+      if (i === 0 || /[\s:,[{-]/.test(line[i - 1])) quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Quoted scalar reader
+ * @returns [value, index after the closing quote]
+ */
+function readQuoted(text: string, start: number): [string, number] {
+  const quote = text[start];
+  let value = "";
+  let i = start + 1;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (quote === "'" && char === "'") {
+      if (text[i + 1] === "'") {
+        value += "'";
+        i += 2;
+        continue;
+      }
+      return [value, i + 1];
+    }
+
+    if (quote === '"' && char === '"') {
+      return [value, i + 1];
+    }
+
+    if (quote === '"' && char === "\\") {
+      const next = text[i + 1];
+      if (next === "u") {
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+      value += { n: "\n", t: "\t", r: "\r", "0": "\0", '"': '"', "\\": "\\", "/": "/" }[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    value += char;
+    i++;
+  }
+
+  throw new ConfigClientError(`Unterminated quoted scalar: ${text}`);
+}
+
+/**
+ * Flow value parser (`[a, b]`, `{a: 1}`, quoted and plain scalars)
+ */
+function parseFlow(text: string): unknown {
+  const [value, end] = readFlow(text.trim(), 0, false);
+  return end === text.trim().length ? value : resolveScalar(text.trim());
+}
+
+/**
+ * Recursive flow node reader
+ * @returns [value, index after the node]
+ */
+function readFlow(text: string, start: number, nested: boolean): [unknown, number] {
+  let i = skipSpaces(text, start);
+  const char = text[i];
+
+  if (char === "[" || char === "{") {
+    const isSequence = char === "[";
+    const close = isSequence ? "]" : "}";
+    const sequence: unknown[] = [];
+    const mapping: Record<string, unknown> = {};
+    i = skipSpaces(text, i + 1);
+
+    while (text[i] !== close) {
+      if (i >= text.length) {
+        throw new ConfigClientError(`Unterminated flow collection: ${text}`);
+      }
+
+      const itemStart = i;
+      const [item, afterItem] = readFlow(text, i, true);
+      i = skipSpaces(text, afterItem);
+
+      if (text[i] === ":") {
+        const [value, afterValue] = readFlow(text, i + 1, true);
+        mapping[String(item)] = value;
+        i = skipSpaces(text, afterValue);
+      } else if (isSequence) {
+        sequence.push(item);
+      } else {
+        mapping[String(item)] = null;
+      }
+
+      if (text[i] === ",") i = skipSpaces(text, i + 1);
+
+      // a stray ']' or '}' would otherwise be read as an empty item forever
+      if (i === itemStart) {
+        throw new ConfigClientError(`Unexpected '${text[i]}' in flow collection: ${text}`);
+      }
+    }
+
+    return [isSequence ? sequence : mapping, i + 1];
+  }
+
+  if (char === '"' || char === "'") {
+    return readQuoted(text, i);
+  }
+
+  // plain scalar: inside flow collections it ends at ',', ']', '}' or ': '
+  let end = i;
+  while (end < text.length) {
+    if (nested && /[,\]}]/.test(text[end])) break;
+    if (nested && text[end] === ":" && (end + 1 === text.length || /[\s,\]}]/.test(text[end + 1]))) break;
+    end++;
+  }
+
+  return [resolveScalar(text.slice(i, end).trim()), end];
+}
+
+/**
+ * Whitespace skipper
+ */
+function skipSpaces(text: string, start: number): number {
+  let i = start;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+/**
+ * Plain scalar type resolver (YAML 1.2 core schema)
+ */
+function resolveScalar(text: string): unknown {
+  if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  if (/^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith("-") ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+}
+
+/**
+ * YAML serializer (block style, readable by parseYaml)
+ */
+export function stringifyYaml(value: unknown): string {
+  const lines = isYamlCollection(value) ? yamlLines(value, "") : [yamlScalar(value)];
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Block lines of a non-empty mapping or sequence
+ */
+function yamlLines(value: unknown, indent: string): string[] {
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isYamlCollection(item)) {
+        // the first line of a nested collection goes on the '- ' line
+        const [first, ...rest] = yamlLines(item, `${indent}  `);
+        lines.push(`${indent}- ${first.trimStart()}`, ...rest);
+      } else {
+        lines.push(`${indent}- ${yamlScalar(item)}`);
+      }
+    }
+  } else {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      if (isYamlCollection(item)) {
+        lines.push(`${indent}${yamlString(key)}:`, ...yamlLines(item, `${indent}  `));
+      } else {
+        lines.push(`${indent}${yamlString(key)}: ${yamlScalar(item)}`);
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Non-empty mapping or sequence checker (empty ones are written inline as `{}` / `[]`)
+ */
+function isYamlCollection(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return typeof value === "object" && value !== null && Object.keys(value).length > 0;
+}
+
+/**
+ * Inline scalar writer
+ */
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "[]";
+  if (typeof value === "object") return "{}";
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return ".nan";
+    if (!Number.isFinite(value)) return value > 0 ? ".inf" : "-.inf";
+    return String(value);
+  }
+  if (typeof value === "boolean") return String(value);
+  return yamlString(String(value));
+}
+
+/**
+ * String writer: plain if it reads back as the same string, double-quoted otherwise
+ */
+function yamlString(text: string): string {
+  const plain =
+    text !== "" &&
+    resolveScalar(text) === text &&
+    !/^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(text) &&
+    !/\s$/.test(text) &&
+    !/[\n\r\t]/.test(text) &&
+    !/:(\s|$)/.test(text) &&
+    !text.includes(" #");
+
+  // JSON string escapes are valid YAML double-quoted escapes
+  return plain ? text : JSON.stringify(text);
+}
@@ -19,16 +19,105 @@
 // Types
 export type {
   PropertySource,
+  PropertySourceValue,
+  PropertyOrigin,
   ConfigResponse,
   AuthOptions,
+  BasicAuthOptions,
+  OAuth2Options,
+  AuthHeaderProvider,
   RetryOptions,
+  RetryJitter,
+  RetryEvent,
+  ConfigLoadMode,
+  FailoverStrategy,
+  FailoverOptions,
+  EndpointFailure,
   ConfigClientOptions,
+  ConfigClientStats,
   IConfig,
   ResponseFormat,
+  FormatLoadOptions,
+  LoadAsOptions,
+  ResourceOptions,
+  DiagnosticsOptions,
+  HealthComponent,
+  ConfigServerHealth,
+  ActuatorEnvironment,
+  Transport,
+  ConfigRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  InterceptorOptions,
+  TlsOptions,
+  ConfigLogger,
+  ConfigMetrics,
+  ConfigSpan,
+  ConfigTracer,
+  SpanAttributes,
+  SanitizeOptions,
+  WatchOptions,
+  ConfigChangeEvent,
+  ConfigWatcherEvents,
+  ConfigTarget,
+  PropertyChangeType,
+  PropertyChange,
+  PropertySourceDiff,
+  ConfigDiff,
+  DiffOptions,
+  ConfigDiffTarget,
+  BusRefreshEvent,
+  MonitorNotification,
+  RefreshNotification,
+  ConfigOptions,
+  CachedConfig,
+  CachedResource,
+  CacheEntry,
+  ConfigCache,
+  CacheOptions,
+  FileConfigCacheOptions,
+  ConfigBackend,
+  FileConfigBackendOptions,
+  RsaKeyOptions,
+  DecryptionOptions,
+  TextDecryptor,
+  PropertyType,
+  PropertySchema,
+  ConfigSchema,
+  InferSchema,
+  ValidationIssue,
+  ValidationResult,
+  ConfigValidator,
+  PlaceholderResolver,
+  LayerPosition,
+  EnvLayerOptions,
+  FileLayerOptions,
+  PropertiesLayerOptions,
+  PropertyLayerOptions,
 } from "./types";
 
-export { ConfigClientError } from "./types";
+export {
+  ConfigClientError,
+  ConfigNotFoundError,
+  ConfigUnauthorizedError,
+  ConfigTimeoutError,
+  ConfigNetworkError,
+  ConfigInvalidResponseError,
+  ConfigDecryptionError,
+  ConfigPlaceholderError,
+  ConfigCoercionError,
+  ConfigValidationError,
+} from "./types";
 
 // Classes
 export { Config } from "./config";
 export { ConfigClient, createClient } from "./client";
+export { ConfigWatcher } from "./watcher";
+export { diffConfig } from "./diff";
+export { RefreshListener } from "./bus";
+export { FileConfigCache, MemoryConfigCache } from "./cache";
+export { FileConfigBackend, MemoryConfigBackend } from "./backends";
+export { CipherDecryptor } from "./decrypt";
+export { schemaValidator, fromZod, fromJoi } from "./schema";
+export { createNodeTransport } from "./transport";
+export { DEFAULT_SENSITIVE_KEYS } from "./sanitize";
@@ -0,0 +1,121 @@
+/**
+ * Spring relaxed binding canonical key
+ * Kebab-case, camelCase, underscore and env-style names of the same property map to one form.
+ * ex) 'database.max-pool-size', 'database.maxPoolSize', 'DATABASE_MAXPOOLSIZE' -> 'database.maxpoolsize'
+ */
+export function canonicalKey(key: string): string {
+  // env-style (upper case, no dots): underscores separate segments
+  const dotted = !key.includes(".") && /^[A-Z0-9_]+$/.test(key) ? key.replace(/_/g, ".") : key;
+
+  return dotted.toLowerCase().replace(/[-_]/g, "");
+}
+
+/**
+ * Flat key to path segments parser
+ * Bracket indices become numbers, other bracket contents are map keys (may contain dots).
+ * ex) 'servers[0].host' -> ['servers', 0, 'host'], 'map[some.key]' -> ['map', 'some.key']
+ */
+export function parseKey(key: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  let current = "";
+  let i = 0;
+
+  while (i < key.length) {
+    const char = key[i];
+
+    if (char === ".") {
+      if (current) segments.push(current);
+      current = "";
+      i++;
+    } else if (char === "[") {
+      const end = key.indexOf("]", i);
+      if (end === -1) {
+        current += key.slice(i);
+        break;
+      }
+
+      if (current) segments.push(current);
+      current = "";
+
+      const inner = key.slice(i + 1, end);
+      segments.push(/^\d+$/.test(inner) ? Number(inner) : inner);
+      i = end + 1;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+
+  if (current) segments.push(current);
+
+  return segments;
+}
+
+/**
+ * Outermost list root of a flat key (null if the key has no index)
+ * ex) 'servers[0].host' -> 'servers', 'a.b[1][2]' -> 'a.b', 'map[some.key]' -> null
+ */
+export function listRoot(key: string): string | null {
+  const match = key.match(/\[\d+\]/);
+  return match ? key.slice(0, match.index) : null;
+}
+
+/**
+ * Nested object to flat keys converter (Spring style)
+ * Arrays become indexed keys; `[...]` quoted map keys are kept in brackets.
+ * ex) { servers: [{ host: 'a' }], map: { '[some.key]': 1 } } -> { 'servers[0].host': 'a', 'map[some.key]': 1 }
+ */
+export function flatten(value: unknown, prefix = "", result: Record<string, unknown> = {}): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    if (value.length === 0 && prefix) result[prefix] = "";
+    value.forEach((item, index) => flatten(item, `${prefix}[${index}]`, result));
+  } else if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value);
+    if (entries.length === 0 && prefix) result[prefix] = "";
+    for (const [key, item] of entries) {
+      const path = key.startsWith("[") && key.endsWith("]") ? `${prefix}${key}` : prefix ? `${prefix}.${key}` : key;
+      flatten(item, path, result);
+    }
+  } else if (prefix) {
+    result[prefix] = value === null ? "" : value;
+  }
+
+  return result;
+}
+
+/**
+ * Nested object copy with dotted map keys quoted in brackets (so that flatten() restores the same flat keys)
+ * ex) { map: { 'some.key': 1 } } -> { map: { '[some.key]': 1 } }
+ */
+export function quoteDottedKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(quoteDottedKeys);
+  if (typeof value !== "object" || value === null) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key.includes(".") ? `[${key}]` : key, quoteDottedKeys(item)])
+  );
+}
+
+/**
+ * Environment variable name to property key converter (Spring relaxed env mapping)
+ * ex) 'DATABASE_HOST' -> 'database.host', 'SERVERS_0_HOST' -> 'servers[0].host'
+ */
+export function envToKey(name: string): string {
+  return name
+    .split("_")
+    .filter((segment) => segment !== "")
+    .map((segment) => segment.toLowerCase())
+    .reduce((key, segment) => (/^\d+$/.test(segment) ? `${key}[${segment}]` : key ? `${key}.${segment}` : segment), "");
+}
+
+/**
+ * Property key to environment variable name converter (inverse of envToKey)
+ * ex) 'database.host' -> 'DATABASE_HOST', 'servers[0].host' -> 'SERVERS_0_HOST', 'max-pool-size' -> 'MAXPOOLSIZE'
+ */
+export function keyToEnv(key: string): string {
+  return key
+    .replace(/-/g, "")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+}
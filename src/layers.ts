@@ -0,0 +1,112 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parseProperties, parseYaml } from "./formats";
+import { canonicalKey, envToKey, flatten } from "./keys";
+import { ConfigClientError, EnvLayerOptions, FileLayerOptions, PropertyLayerOptions, PropertySource } from "./types";
+
+/**
+ * Local layers applied around the server's propertySources
+ */
+export interface LayerSources {
+  /** Sources placed before (higher priority than) the server sources */
+  override: PropertySource[];
+  /** Sources placed after (lower priority than) the server sources */
+  fallback: PropertySource[];
+}
+
+/**
+ * Local property layers to synthetic PropertySources
+ * @param layers - Layer options, highest priority first within the same position
+ * @param serverSources - Server property sources (used to map env names onto existing keys)
+ */
+export async function buildLayerSources(
+  layers: PropertyLayerOptions[],
+  serverSources: PropertySource[]
+): Promise<LayerSources> {
+  const result: LayerSources = { override: [], fallback: [] };
+
+  for (const layer of layers) {
+    const source = await buildLayerSource(layer, serverSources);
+    if (source) {
+      result[layer.position ?? "override"].push(source);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Single layer to PropertySource
+ */
+async function buildLayerSource(
+  layer: PropertyLayerOptions,
+  serverSources: PropertySource[]
+): Promise<PropertySource | null> {
+  switch (layer.type) {
+    case "env":
+      return { name: layer.name ?? "systemEnvironment", source: readEnv(layer, serverSources) };
+    case "file": {
+      const source = await readLayerFile(layer);
+      return source && { name: layer.name ?? `file:${layer.path}`, source };
+    }
+    case "properties":
+      return { name: layer.name ?? "overrides", source: flatten(layer.properties) };
+  }
+}
+
+/**
+ * Environment variables to flat properties
+ */
+function readEnv(layer: EnvLayerOptions, serverSources: PropertySource[]): Record<string, unknown> {
+  const env = layer.env ?? process.env;
+  const prefix = layer.prefix ?? "";
+
+  // relaxed name -> existing server key, so env values override the key the application reads
+  const serverKeys = new Map<string, string>();
+  for (const propertySource of serverSources) {
+    for (const key of Object.keys(propertySource.source)) {
+      if (!serverKeys.has(canonicalKey(key))) serverKeys.set(canonicalKey(key), key);
+    }
+  }
+
+  const source: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined || !name.startsWith(prefix) || name.length === prefix.length) continue;
+
+    const key = envToKey(name.slice(prefix.length));
+    if (!key) continue;
+
+    source[serverKeys.get(canonicalKey(key)) ?? key] = value;
+  }
+
+  return source;
+}
+
+/**
+ * Local file to flat properties
+ * @returns null if an optional file is missing
+ */
+async function readLayerFile(layer: FileLayerOptions): Promise<Record<string, unknown> | null> {
+  let content: string;
+
+  try {
+    content = await readFile(layer.path, "utf8");
+  } catch (error) {
+    if (layer.optional && (error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new ConfigClientError(`Cannot read config layer file ${layer.path}: ${(error as Error).message}`);
+  }
+
+  switch (extname(layer.path).toLowerCase()) {
+    case ".json":
+      return flatten(JSON.parse(content));
+    case ".yml":
+    case ".yaml":
+      // later documents override earlier ones
+      return Object.assign({}, ...parseYaml(content).map((document) => flatten(document)));
+    case ".properties":
+      return parseProperties(content);
+    default:
+      throw new ConfigClientError(`Unsupported config layer file format: ${layer.path}`);
+  }
+}
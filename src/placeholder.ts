@@ -0,0 +1,119 @@
+import { ConfigPlaceholderError, PlaceholderResolver } from "./types";
+
+const PREFIX = "${";
+const SUFFIX = "}";
+const SEPARATOR = ":";
+
+/**
+ * `${...}` placeholder resolution over merged flat properties (Spring PropertyPlaceholderHelper semantics)
+ * Lookup order: custom resolver -> merged properties -> process.env -> inline default.
+ * Unresolvable placeholders without a default are left verbatim.
+ * @throws ConfigPlaceholderError on circular references
+ */
+export function resolvePlaceholders(
+  properties: Record<string, unknown>,
+  resolver?: PlaceholderResolver
+): Record<string, unknown> {
+  const lookup = (name: string): string | undefined => {
+    const custom = resolver?.(name);
+    if (custom !== undefined) return custom;
+
+    const value = properties[name];
+    if (value !== undefined && value !== null) return String(value);
+
+    return lookupEnv(name);
+  };
+
+  const resolved: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(properties)) {
+    resolved[key] = typeof value === "string" && value.includes(PREFIX) ? parse(value, lookup, new Set(), key) : value;
+  }
+
+  return resolved;
+}
+
+/**
+ * Environment variable lookup with Spring's relaxed names
+ * ex) 'spring.data-source.url' -> 'spring.data-source.url', 'spring_data_source_url', 'SPRING_DATA_SOURCE_URL'
+ */
+function lookupEnv(name: string): string | undefined {
+  if (typeof process === "undefined") return undefined;
+
+  const underscored = name.replace(/[.-]/g, "_");
+  return process.env[name] ?? process.env[underscored] ?? process.env[underscored.toUpperCase()];
+}
+
+/**
+ * Recursive placeholder parser
+ */
+function parse(
+  value: string,
+  lookup: (name: string) => string | undefined,
+  visiting: Set<string>,
+  key: string
+): string {
+  let result = value;
+  let start = result.indexOf(PREFIX);
+
+  while (start !== -1) {
+    const end = findPlaceholderEnd(result, start);
+    if (end === -1) break;
+
+    const original = result.slice(start + PREFIX.length, end);
+    if (visiting.has(original)) {
+      throw new ConfigPlaceholderError(`Circular placeholder reference '${original}' in property '${key}'`, key);
+    }
+    visiting.add(original);
+
+    // nested placeholders in the name (e.g. ${db.${env}.url})
+    const placeholder = parse(original, lookup, visiting, key);
+    let resolved = lookup(placeholder);
+
+    if (resolved === undefined) {
+      const separatorIndex = placeholder.indexOf(SEPARATOR);
+      if (separatorIndex !== -1) {
+        resolved = lookup(placeholder.slice(0, separatorIndex)) ?? placeholder.slice(separatorIndex + SEPARATOR.length);
+      }
+    }
+
+    if (resolved !== undefined) {
+      // resolved values may contain placeholders themselves
+      resolved = parse(resolved, lookup, visiting, key);
+      result = result.slice(0, start) + resolved + result.slice(end + SUFFIX.length);
+      start = result.indexOf(PREFIX, start + resolved.length);
+    } else {
+      start = result.indexOf(PREFIX, end + SUFFIX.length);
+    }
+
+    visiting.delete(original);
+  }
+
+  return result;
+}
+
+/**
+ * Matching suffix finder (skips nested `${...}` and `{...}`)
+ */
+function findPlaceholderEnd(value: string, start: number): number {
+  let index = start + PREFIX.length;
+  let depth = 0;
+
+  while (index < value.length) {
+    if (value.startsWith(SUFFIX, index)) {
+      if (depth === 0) return index;
+      depth--;
+      index += SUFFIX.length;
+    } else if (value.startsWith(PREFIX, index)) {
+      depth++;
+      index += PREFIX.length;
+    } else if (value[index] === "{") {
+      depth++;
+      index++;
+    } else {
+      index++;
+    }
+  }
+
+  return -1;
+}
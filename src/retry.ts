@@ -0,0 +1,119 @@
+import { RetryEvent, RetryOptions } from "./types";
+
+/**
+ * default options
+ */
+const DEFAULT_OPTIONS = {
+  maxRetries: 3,
+  retryDelay: 1000,
+  exponentialBackoff: true,
+  jitter: "none" as const,
+  maxDelay: 30000,
+  maxElapsedTime: Infinity,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Retry decision and delay calculator
+ */
+export class RetryPolicy {
+  private readonly options: Required<Omit<RetryOptions, "onRetry">>;
+  private readonly onRetry?: (event: RetryEvent) => void;
+
+  constructor(options: RetryOptions = {}) {
+    const { onRetry, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...stripUndefined(rest) };
+    this.onRetry = onRetry;
+  }
+
+  /**
+   * Max retry count
+   */
+  get maxRetries(): number {
+    return this.options.maxRetries;
+  }
+
+  /**
+   * Total time budget (ms)
+   */
+  get maxElapsedTime(): number {
+    return this.options.maxElapsedTime;
+  }
+
+  /**
+   * Whether network errors and timeouts are retried
+   */
+  get retryOnNetworkError(): boolean {
+    return this.options.retryOnNetworkError;
+  }
+
+  /**
+   * Whether an error status is worth retrying
+   */
+  isRetryableStatus(statusCode: number): boolean {
+    return this.options.retryableStatusCodes.includes(statusCode);
+  }
+
+  /**
+   * `Retry-After` delay of a response (ms)
+   * @returns undefined if absent, unparsable or disabled
+   */
+  retryAfter(response: Response): number | undefined {
+    const header = this.options.respectRetryAfter ? response.headers.get("Retry-After") : null;
+    if (!header) return undefined;
+
+    if (/^\d+$/.test(header.trim())) {
+      return Number(header.trim()) * 1000;
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Delay before the next attempt
+   * @param attempt - Failed attempt (0 = first attempt)
+   * @param previousDelay - Delay before the failed attempt (0 for the first attempt)
+   * @param retryAfter - Server requested delay (ms)
+   */
+  delay(attempt: number, previousDelay: number, retryAfter?: number): number {
+    const { retryDelay, exponentialBackoff, jitter, maxDelay } = this.options;
+    const backoff = Math.min(exponentialBackoff ? retryDelay * Math.pow(2, attempt) : retryDelay, maxDelay);
+
+    let delay: number;
+    switch (jitter) {
+      case "full":
+        delay = Math.random() * backoff;
+        break;
+      case "decorrelated": {
+        const upper = Math.max(retryDelay, previousDelay * 3);
+        delay = retryDelay + Math.random() * (upper - retryDelay);
+        break;
+      }
+      default:
+        delay = backoff;
+    }
+
+    return Math.round(Math.min(Math.max(delay, retryAfter ?? 0), maxDelay));
+  }
+
+  /**
+   * onRetry hook caller (hook errors never break the retry loop)
+   */
+  notify(event: RetryEvent): void {
+    try {
+      this.onRetry?.(event);
+    } catch {
+      // ignore
+    }
+  }
+}
+
+/**
+ * Drops undefined values so they don't override defaults
+ */
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as Partial<T>;
+}
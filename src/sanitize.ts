@@ -0,0 +1,67 @@
+/**
+ * Default sensitive key patterns (like Spring Boot's actuator Sanitizer)
+ * Strings match the end of a key, case-insensitively; regular expressions are tested against the whole key.
+ */
+export const DEFAULT_SENSITIVE_KEYS: readonly (string | RegExp)[] = [
+  "password",
+  "secret",
+  "key",
+  "token",
+  /credentials/i,
+  "vcap_services",
+];
+
+/**
+ * Replacement of sensitive values
+ */
+export const MASK = "******";
+
+/**
+ * Keys whose values are URIs that may carry a password in their userinfo
+ */
+const URI_KEY = /(uri|url|address)(s|es)?$/i;
+
+/**
+ * Sensitive key classifier and value masker
+ */
+export class Sanitizer {
+  private readonly patterns: readonly (string | RegExp)[];
+
+  constructor(patterns: readonly (string | RegExp)[] = DEFAULT_SENSITIVE_KEYS) {
+    this.patterns = patterns;
+  }
+
+  /**
+   * Whether a key holds a sensitive value
+   * List indices are ignored, so 'app.tokens[0]' is as sensitive as 'app.tokens'.
+   */
+  isSensitive(key: string): boolean {
+    const normalized = key.replace(/\[\d+\]/g, "").toLowerCase();
+
+    return this.patterns.some((pattern) =>
+      typeof pattern === "string" ? normalized.endsWith(pattern.toLowerCase()) : pattern.test(key)
+    );
+  }
+
+  /**
+   * Masked value of a key
+   * Sensitive values become '******'; passwords in URI values (ex. 'spring.datasource.url') are masked in place.
+   */
+  sanitize(key: string, value: unknown): unknown {
+    if (value === null || value === undefined) return value;
+    if (this.isSensitive(key)) return MASK;
+
+    if (typeof value === "string" && URI_KEY.test(key.replace(/\[\d+\]/g, ""))) {
+      return value.replace(/([a-z][a-z0-9+.-]*:\/\/[^:/?#@\s]*:)[^/?#\s]*@/gi, `$1${MASK}@`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Masked copy of flat properties
+   */
+  sanitizeAll(properties: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, this.sanitize(key, value)]));
+  }
+}
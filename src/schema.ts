@@ -0,0 +1,191 @@
+import { ConfigSchema, ConfigValidator, PropertySchema, ValidationIssue, ValidationResult } from "./types";
+
+/**
+ * Built-in schema validator
+ * Validates a nested config object and returns only the declared keys, with defaults applied.
+ *
+ * @example
+ * ```typescript
+ * const database = config.bind({
+ *   host: { type: 'string', required: true },
+ *   port: { type: 'number', default: 5432, min: 1, max: 65535 },
+ *   mode: { type: 'string', enum: ['primary', 'replica'] },
+ * }, 'database');
+ * ```
+ */
+export function schemaValidator<S extends ConfigSchema, T = unknown>(schema: S): ConfigValidator<T> {
+  return {
+    validate(value: unknown): ValidationResult<T> {
+      const issues: ValidationIssue[] = [];
+      const result = validateObject(schema, value, [], issues);
+      return issues.length > 0 ? { issues } : { value: result as T };
+    },
+  };
+}
+
+/**
+ * Zod adapter (any schema exposing `safeParse`)
+ */
+export function fromZod<T>(schema: {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: { path: (string | number)[]; message: string }[] } };
+}): ConfigValidator<T> {
+  return {
+    validate(value: unknown): ValidationResult<T> {
+      const result = schema.safeParse(value);
+      if (result.success) return { value: result.data };
+      return { issues: result.error.issues.map((issue) => ({ key: issue.path.join("."), message: issue.message })) };
+    },
+  };
+}
+
+/**
+ * Joi adapter (any schema exposing `validate(value, { abortEarly })`)
+ */
+export function fromJoi<T>(schema: {
+  validate(
+    value: unknown,
+    options?: { abortEarly?: boolean }
+  ): { value: T; error?: { details: { path: (string | number)[]; message: string }[] } };
+}): ConfigValidator<T> {
+  return {
+    validate(value: unknown): ValidationResult<T> {
+      const result = schema.validate(value, { abortEarly: false });
+      if (!result.error) return { value: result.value };
+      return { issues: result.error.details.map((detail) => ({ key: detail.path.join("."), message: detail.message })) };
+    },
+  };
+}
+
+/**
+ * Leaf declaration checker
+ */
+function isPropertySchema(entry: PropertySchema | ConfigSchema): entry is PropertySchema {
+  return typeof entry.type === "string";
+}
+
+/**
+ * Nested schema validation
+ */
+function validateObject(
+  schema: ConfigSchema,
+  value: unknown,
+  path: string[],
+  issues: ValidationIssue[]
+): Record<string, unknown> {
+  const source = isPlainObject(value) ? value : {};
+  const result: Record<string, unknown> = {};
+
+  if (value !== undefined && !isPlainObject(value)) {
+    issues.push({ key: path.join("."), message: `expected object but got ${describeValue(value)}` });
+  }
+
+  for (const [key, entry] of Object.entries(schema)) {
+    const childPath = [...path, key];
+
+    if (isPropertySchema(entry)) {
+      const child = validateProperty(entry, source[key], childPath, issues);
+      if (child !== undefined) result[key] = child;
+    } else {
+      result[key] = validateObject(entry, source[key], childPath, issues);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Leaf property validation
+ */
+function validateProperty(
+  schema: PropertySchema,
+  value: unknown,
+  path: string[],
+  issues: ValidationIssue[]
+): unknown {
+  const key = path.join(".");
+
+  if (value === undefined || value === null) {
+    if (schema.default !== undefined) return schema.default;
+    if (schema.required) issues.push({ key, message: "is required" });
+    return undefined;
+  }
+
+  const coerced = coerce(schema.type, value);
+
+  if (!matchesType(schema.type, coerced)) {
+    issues.push({ key, message: `expected ${schema.type} but got ${describeValue(value)}` });
+    return undefined;
+  }
+
+  if (schema.enum && !schema.enum.includes(coerced)) {
+    issues.push({ key, message: `must be one of [${schema.enum.join(", ")}] but got ${JSON.stringify(coerced)}` });
+  }
+
+  const size =
+    typeof coerced === "number"
+      ? coerced
+      : Array.isArray(coerced) || typeof coerced === "string"
+      ? coerced.length
+      : undefined;
+  const unit = typeof coerced === "number" ? "" : " in length";
+
+  if (size !== undefined && schema.min !== undefined && size < schema.min) {
+    issues.push({ key, message: `must be at least ${schema.min}${unit}` });
+  }
+  if (size !== undefined && schema.max !== undefined && size > schema.max) {
+    issues.push({ key, message: `must be at most ${schema.max}${unit}` });
+  }
+  if (schema.pattern && typeof coerced === "string" && !schema.pattern.test(coerced)) {
+    issues.push({ key, message: `must match ${schema.pattern}` });
+  }
+
+  return coerced;
+}
+
+/**
+ * String to number/boolean coercion (values from .properties sources are always strings)
+ */
+function coerce(type: PropertySchema["type"], value: unknown): unknown {
+  if (typeof value !== "string") return value;
+
+  if (type === "number" && value.trim() !== "" && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (type === "boolean" && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+
+  return value;
+}
+
+/**
+ * Type checker
+ */
+function matchesType(type: PropertySchema["type"], value: unknown): boolean {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Plain object checker
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Value description for issue messages
+ */
+function describeValue(value: unknown): string {
+  return Array.isArray(value) ? "array" : value === null ? "null" : `${typeof value} (${JSON.stringify(value)})`;
+}
@@ -0,0 +1,140 @@
+import { ConfigLogger, ConfigMetrics, ConfigSpan, ConfigTracer, SpanAttributes } from "./types";
+
+/**
+ * Header names whose values are never logged
+ */
+const SENSITIVE_HEADER = /authorization|cookie|token|secret|password|api-?key/i;
+
+/**
+ * OpenTelemetry SpanStatusCode.ERROR
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Span used when no tracer is configured
+ */
+const NOOP_SPAN: ConfigSpan = {
+  setAttribute: () => undefined,
+  recordException: () => undefined,
+  setStatus: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Log level
+ */
+type LogLevel = keyof ConfigLogger;
+
+/**
+ * Telemetry options
+ */
+interface TelemetryOptions {
+  logger?: ConfigLogger;
+  metrics?: ConfigMetrics;
+  tracer?: ConfigTracer;
+  /** Secret remover applied to every logged string */
+  redact: (text: string) => string;
+}
+
+/**
+ * Logger, metrics and tracer facade
+ * Every sink is optional; logged fields are redacted before they leave the client.
+ */
+export class Telemetry {
+  private readonly options: TelemetryOptions;
+
+  constructor(options: TelemetryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Structured log event
+   * @param event - Event name (ex. 'request.retry')
+   */
+  log(level: LogLevel, event: string, fields: Record<string, unknown> = {}): void {
+    const { logger } = this.options;
+    if (!logger) return;
+
+    try {
+      logger[level](event, this.sanitize(fields) as Record<string, unknown>);
+    } catch {
+      // a broken logger must not break config loading
+    }
+  }
+
+  /**
+   * Counter increment
+   */
+  increment(name: string, tags?: Record<string, string>): void {
+    try {
+      this.options.metrics?.increment(name, 1, tags);
+    } catch {
+      // ignore
+    }
+  }
+
+  /**
+   * Histogram sample
+   */
+  observe(name: string, value: number, tags?: Record<string, string>): void {
+    try {
+      this.options.metrics?.observe(name, value, tags);
+    } catch {
+      // ignore
+    }
+  }
+
+  /**
+   * Run a function inside a span (a no-op span without tracer)
+   * Failures are recorded on the span and rethrown.
+   */
+  async span<T>(name: string, attributes: SpanAttributes, fn: (span: ConfigSpan) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, attributes);
+
+    try {
+      return await fn(span);
+    } catch (error) {
+      const redacted = new Error(this.options.redact((error as Error).message));
+      redacted.name = (error as Error).name;
+      span.recordException(redacted);
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: redacted.message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Header values of sensitive headers replaced with '***'
+   */
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, SENSITIVE_HEADER.test(name) ? "***" : value])
+    );
+  }
+
+  /**
+   * Span factory call (tracer errors fall back to a no-op span)
+   */
+  private startSpan(name: string, attributes: SpanAttributes): ConfigSpan {
+    try {
+      const span = this.options.tracer?.startSpan(name, { attributes: this.sanitize(attributes) as SpanAttributes });
+      return span ?? NOOP_SPAN;
+    } catch {
+      return NOOP_SPAN;
+    }
+  }
+
+  /**
+   * Recursive redaction of logged values (errors become their redacted message)
+   */
+  private sanitize(value: unknown): unknown {
+    if (typeof value === "string") return this.options.redact(value);
+    if (value instanceof Error) return { name: value.name, message: this.options.redact(value.message) };
+    if (Array.isArray(value)) return value.map((item) => this.sanitize(item));
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.sanitize(item)]));
+    }
+    return value;
+  }
+}
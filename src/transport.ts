@@ -0,0 +1,59 @@
+import { request as httpRequest } from "node:http";
+import { Agent, request as httpsRequest } from "node:https";
+import { Readable } from "node:stream";
+import { TlsOptions, Transport } from "./types";
+
+/**
+ * Default transport (global fetch, looked up on every call)
+ */
+export const fetchTransport: Transport = (url, init) => fetch(url, init);
+
+/**
+ * Node http/https transport with client TLS options
+ * Node's fetch cannot use an `https.Agent`, so requests go through `node:https` and are wrapped in a Response.
+ * @param tls - Client certificate, key and CA bundle options
+ */
+export function createNodeTransport(tls: TlsOptions = {}): Transport {
+  const agent = new Agent({ ...tls });
+
+  return (url, init) =>
+    new Promise<Response>((resolve, reject) => {
+      const target = new URL(url);
+      const secure = target.protocol === "https:";
+      const method = init.method ?? "GET";
+
+      const req = (secure ? httpsRequest : httpRequest)(
+        target,
+        {
+          method,
+          headers: init.headers as Record<string, string> | undefined,
+          agent: secure ? agent : undefined,
+          signal: init.signal ?? undefined,
+        },
+        (res) => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+              headers.append(name, item);
+            }
+          }
+
+          const status = res.statusCode ?? 0;
+          const empty = method === "HEAD" || status === 204 || status === 304;
+          if (empty) res.resume();
+
+          resolve(
+            new Response(empty ? null : (Readable.toWeb(res) as ReadableStream), {
+              status,
+              statusText: res.statusMessage,
+              headers,
+            })
+          );
+        }
+      );
+
+      req.on("error", reject);
+      if (init.body !== undefined && init.body !== null) req.write(String(init.body));
+      req.end();
+    });
+}
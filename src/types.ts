@@ -4,6 +4,30 @@
 export interface PropertySource {
   name: string;
   source: Record<string, unknown>;
+  /** Application the source was loaded for (set by ConfigClient.load) */
+  application?: string;
+}
+
+/**
+ * Value of a key in one property source
+ */
+export interface PropertySourceValue {
+  /** Property source name */
+  source: string;
+  /** Application the property source was loaded for */
+  application?: string;
+  /** Value as defined in the property source */
+  value: unknown;
+}
+
+/**
+ * Origin of a configuration value
+ */
+export interface PropertyOrigin extends PropertySourceValue {
+  /** Flat key */
+  key: string;
+  /** Values of lower priority property sources hidden by the winning one, in priority order */
+  shadowed: PropertySourceValue[];
 }
 
 /**
@@ -18,12 +42,76 @@ export interface ConfigResponse {
   propertySources: PropertySource[];
 }
 
+/**
+ * HTTP Basic credentials
+ */
+export interface BasicAuthOptions {
+  username: string;
+  password: string;
+}
+
+/**
+ * OAuth2 client credentials flow options
+ */
+export interface OAuth2Options {
+  /** Token endpoint URL */
+  tokenUrl: string;
+  /** Client id */
+  clientId: string;
+  /** Client secret */
+  clientSecret: string;
+  /** Requested scope(s) */
+  scope?: string | string[];
+  /** Requested audience */
+  audience?: string;
+  /** How client credentials are sent (default: 'basic' = Authorization header, 'body' = form parameters) */
+  clientAuthentication?: "basic" | "body";
+  /** Seconds before expiry at which the cached token is refreshed (default: 30) */
+  refreshSkew?: number;
+}
+
+/**
+ * Custom async auth header provider
+ * Called for every request; called again once after a 401 response.
+ */
+export type AuthHeaderProvider = () => Promise<Record<string, string>> | Record<string, string>;
+
 /**
  * Authentication options interface
  */
 export interface AuthOptions {
   /** API Key auth (Server: Production Mode) */
   apiKey?: string;
+  /** HTTP Basic auth */
+  basic?: BasicAuthOptions;
+  /** Static Bearer token */
+  bearer?: string;
+  /** OAuth2 client credentials flow */
+  oauth2?: OAuth2Options;
+  /** Custom header provider */
+  provider?: AuthHeaderProvider;
+}
+
+/**
+ * Retry delay randomization
+ * - none: exact backoff delay
+ * - full: random delay between 0 and the backoff delay
+ * - decorrelated: random delay between `retryDelay` and 3x the previous delay
+ */
+export type RetryJitter = "none" | "full" | "decorrelated";
+
+/**
+ * Retry hook event
+ */
+export interface RetryEvent {
+  /** Number of the upcoming retry (1 = first retry) */
+  attempt: number;
+  /** Delay before the upcoming retry (ms) */
+  delay: number;
+  /** Failure that caused the retry */
+  error: Error;
+  /** HTTP status code of the failure (undefined for network errors and timeouts) */
+  statusCode?: number;
 }
 
 /**
@@ -36,14 +124,351 @@ export interface RetryOptions {
   retryDelay?: number;
   /** Whether to use exponential backoff (default: true) */
   exponentialBackoff?: boolean;
+  /** Delay randomization (default: 'none') */
+  jitter?: RetryJitter;
+  /** Upper bound of a single delay (ms, default: 30000) */
+  maxDelay?: number;
+  /** Upper bound of the total time spent on attempts and delays, request timeouts included (ms, default: unlimited) */
+  maxElapsedTime?: number;
+  /** Status codes worth retrying; other error statuses fail immediately (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /** Whether network errors and timeouts are retried (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Whether a `Retry-After` response header overrides a shorter computed delay (default: true) */
+  respectRetryAfter?: boolean;
+  /** Called before waiting for each retry */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Cached configuration entry
+ */
+export interface CachedConfig {
+  /** Merged Config Server response */
+  response: ConfigResponse;
+  /** Time the response was cached (epoch ms) */
+  cachedAt: number;
+}
+
+/**
+ * Cached resource file entry
+ */
+export interface CachedResource {
+  /** Resource content (base64) */
+  resource: string;
+  /** Time the resource was cached (epoch ms) */
+  cachedAt: number;
+}
+
+/**
+ * Cache store entry
+ */
+export type CacheEntry = CachedConfig | CachedResource;
+
+/**
+ * Config cache store interface
+ */
+export interface ConfigCache {
+  /** Read a cached entry (null if absent) */
+  get(key: string): Promise<CacheEntry | null>;
+  /** Write a cached entry */
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * FileConfigCache options
+ */
+export interface FileConfigCacheOptions {
+  /** Cache directory, must be private to the current user (default: `~/.cache/config-client`) */
+  directory?: string;
+  /** Secret used to encrypt cached files with AES-256-GCM (default: plaintext); unencrypted files are then ignored */
+  encryptionKey?: string;
 }
 
+/**
+ * Property source backend (replaces the Config Server environment endpoint)
+ */
+export interface ConfigBackend {
+  /**
+   * Environment of one application
+   * propertySources must be ordered like the server's: highest priority first.
+   */
+  environment(application: string, profiles: string[], label: string): Promise<ConfigResponse>;
+}
+
+/**
+ * FileConfigBackend options
+ */
+export interface FileConfigBackendOptions {
+  /** Directory laid out like a Spring config repository ('{label}' is replaced with the requested label) */
+  directory: string;
+}
+
+/**
+ * Offline fallback cache options
+ */
+export interface CacheOptions {
+  /** Cache store (default: FileConfigCache) */
+  store?: ConfigCache;
+  /** Maximum age of a cached entry usable as fallback (ms, default: unlimited) */
+  maxAge?: number;
+}
+
+/**
+ * RSA key for `{cipher}` values (Spring `encrypt.key-store` / `encrypt.rsa.*`)
+ */
+export interface RsaKeyOptions {
+  /** RSA private key (PEM) */
+  privateKey: string;
+  /**
+   * Padding of the encrypted secret (`encrypt.rsa.algorithm`)
+   * Required because Spring's default (PKCS#1 v1.5) cannot be decrypted: Node.js no longer allows it.
+   */
+  algorithm: "OAEP";
+  /** Salt (hex, default: 'deadbeef') */
+  salt?: string;
+  /** Whether the payload uses AES/GCM (`encrypt.rsa.strong`, default: false) */
+  strong?: boolean;
+}
+
+/**
+ * `{cipher}` value decryption options
+ */
+export interface DecryptionOptions {
+  /** Default key: symmetric key (`encrypt.key`) or RSA key */
+  key?: string | RsaKeyOptions;
+  /** Salt of symmetric keys (hex, default: 'deadbeef') */
+  salt?: string;
+  /** Named keys selected with the `{key:name}` prefix */
+  keys?: Record<string, string | RsaKeyOptions>;
+  /** Fail the load on the first decryption failure (default: false, failures are collected per key) */
+  failOnError?: boolean;
+}
+
+/**
+ * `{cipher}` value decryptor interface
+ */
+export interface TextDecryptor {
+  /**
+   * Decrypt a value
+   * @param value - Value without the `{cipher}` prefix (may start with `{key:name}` prefixes)
+   */
+  decrypt(value: string): string;
+}
+
+/**
+ * Custom placeholder resolver
+ * @param name - Placeholder name (e.g. 'DB_HOST' for `${DB_HOST:localhost}`)
+ * @returns resolved value, or undefined to fall back to properties, process.env and the inline default
+ */
+export type PlaceholderResolver = (name: string) => string | undefined;
+
+/**
+ * Local property layer position relative to the server's propertySources
+ * - override: higher priority than every server property source
+ * - fallback: lower priority than every server property source (local defaults)
+ */
+export type LayerPosition = "override" | "fallback";
+
+/**
+ * Environment variable layer
+ * `PREFIX_DATABASE_MAX_POOL_SIZE` is mapped to `database.max.pool.size`, or to an existing
+ * server key with the same relaxed name (e.g. `database.max-pool-size` for `PREFIX_DATABASE_MAXPOOLSIZE`).
+ */
+export interface EnvLayerOptions {
+  type: "env";
+  /** Only variables starting with this prefix are used; the prefix is stripped (default: all variables) */
+  prefix?: string;
+  /** Variables source (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** Property source name (default: 'systemEnvironment') */
+  name?: string;
+  /** Position (default: 'override') */
+  position?: LayerPosition;
+}
+
+/**
+ * Local file layer (.json, .yml/.yaml, .properties)
+ */
+export interface FileLayerOptions {
+  type: "file";
+  /** File path */
+  path: string;
+  /** Ignore a missing file (default: false) */
+  optional?: boolean;
+  /** Property source name (default: 'file:<path>') */
+  name?: string;
+  /** Position (default: 'override') */
+  position?: LayerPosition;
+}
+
+/**
+ * Programmatic properties layer
+ */
+export interface PropertiesLayerOptions {
+  type: "properties";
+  /** Flat or nested properties */
+  properties: Record<string, unknown>;
+  /** Property source name (default: 'overrides') */
+  name?: string;
+  /** Position (default: 'override') */
+  position?: LayerPosition;
+}
+
+/**
+ * Local property layer options
+ */
+export type PropertyLayerOptions = EnvLayerOptions | FileLayerOptions | PropertiesLayerOptions;
+
+/**
+ * Endpoint selection strategy
+ * - ordered: always start with the first healthy endpoint
+ * - round-robin: rotate the starting endpoint on every request
+ */
+export type FailoverStrategy = "ordered" | "round-robin";
+
+/**
+ * Multiple endpoint failover options
+ */
+export interface FailoverOptions {
+  /** Endpoint selection strategy (default: 'ordered') */
+  strategy?: FailoverStrategy;
+  /** Time a failed endpoint is skipped before it is probed again (ms, default: 30000) */
+  unhealthyTimeout?: number;
+}
+
+/**
+ * Failed request of one endpoint
+ */
+export interface EndpointFailure {
+  /** Endpoint base URL */
+  endpoint: string;
+  /** Retry attempt (0 = first attempt) */
+  attempt: number;
+  /** Failure message */
+  message: string;
+  /** HTTP status code (undefined for network errors and timeouts) */
+  statusCode?: number;
+}
+
+/**
+ * HTTP transport (fetch-compatible)
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing request seen by interceptors
+ */
+export interface ConfigRequest {
+  /** Full request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Request headers (including auth headers) */
+  headers: Record<string, string>;
+}
+
+/**
+ * Request interceptor: may modify or replace the request
+ */
+export type RequestInterceptor = (request: ConfigRequest) => ConfigRequest | void | Promise<ConfigRequest | void>;
+
+/**
+ * Response interceptor: may inspect or replace the response
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: ConfigRequest
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Request/response interceptors, called in order for every Config Server request
+ */
+export interface InterceptorOptions {
+  request?: RequestInterceptor[];
+  response?: ResponseInterceptor[];
+}
+
+/**
+ * Client TLS options for the built-in Node HTTPS transport
+ */
+export interface TlsOptions {
+  /** CA bundle (PEM) trusted in addition to / instead of the system CAs */
+  ca?: string | Buffer | (string | Buffer)[];
+  /** Client certificate chain (PEM) */
+  cert?: string | Buffer;
+  /** Client private key (PEM) */
+  key?: string | Buffer;
+  /** Passphrase of the private key or PFX */
+  passphrase?: string;
+  /** Client certificate and key in PKCS#12 format */
+  pfx?: string | Buffer;
+  /** Whether the server certificate is verified (default: true) */
+  rejectUnauthorized?: boolean;
+  /** SNI server name (default: the endpoint host) */
+  servername?: string;
+}
+
+/**
+ * Structured logger (console compatible)
+ * Messages are event names (ex. 'request.retry'); fields never contain credentials.
+ */
+export interface ConfigLogger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Metrics sink (StatsD / Prometheus style)
+ */
+export interface ConfigMetrics {
+  /** Counter increment */
+  increment(name: string, value?: number, tags?: Record<string, string>): void;
+  /** Histogram / timing sample */
+  observe(name: string, value: number, tags?: Record<string, string>): void;
+}
+
+/**
+ * Span attribute values
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Tracing span (structurally compatible with an OpenTelemetry Span)
+ */
+export interface ConfigSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  recordException(exception: Error): unknown;
+  /** code: 0 = unset, 1 = ok, 2 = error (OpenTelemetry SpanStatusCode) */
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+/**
+ * Span factory (structurally compatible with an OpenTelemetry Tracer)
+ */
+export interface ConfigTracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): ConfigSpan;
+}
+
+/**
+ * Startup mode
+ * - fail-fast: any failed application fails the whole load
+ * - optional: failed applications are skipped; with no config at all, load() resolves to an empty (or layer-only) Config
+ */
+export type ConfigLoadMode = "fail-fast" | "optional";
+
 /**
  * ConfigClient creation options
  */
 export interface ConfigClientOptions {
-  /** Config Server endpoint URL */
-  endpoint: string;
+  /**
+   * Config Server endpoint URL, or a list / comma-separated string of URLs for failover
+   * A `file:` URL (ex. 'file:./config-repo') reads a local config repository instead; optional with `backend`.
+   */
+  endpoint?: string | string[];
   /** Application name or list of application names */
   application: string | string[];
   /** Profile list (default: ['default']) */
@@ -58,6 +483,99 @@ export interface ConfigClientOptions {
   headers?: Record<string, string>;
   /** Retry options */
   retry?: RetryOptions;
+  /** Failover options for multiple endpoints */
+  failover?: FailoverOptions;
+  /** Startup mode (default: 'fail-fast') */
+  mode?: ConfigLoadMode;
+  /** HTTP transport (default: globalThis.fetch) */
+  transport?: Transport;
+  /** Client certificates and CA bundles (uses the built-in Node HTTPS transport) */
+  tls?: TlsOptions;
+  /** Request/response interceptors */
+  interceptors?: InterceptorOptions;
+  /** Structured event logger */
+  logger?: ConfigLogger;
+  /** Metrics counters and histograms */
+  metrics?: ConfigMetrics;
+  /** Span factory, ex. `trace.getTracer('config-client')` from @opentelemetry/api */
+  tracer?: ConfigTracer;
+  /** Sensitive key patterns masked in sanitized views (default: DEFAULT_SENSITIVE_KEYS) */
+  sensitiveKeys?: readonly (string | RegExp)[];
+  /** Offline fallback cache (true: file cache with default options) */
+  cache?: CacheOptions | boolean;
+  /** Client-side `{cipher}` value decryption */
+  decryption?: DecryptionOptions;
+  /** `${...}` placeholder resolution (default: true, or a custom resolver) */
+  placeholders?: boolean | PlaceholderResolver;
+  /** Local property layers, highest priority first within the same position */
+  layers?: PropertyLayerOptions[];
+  /** Property source backend used instead of the Config Server (ex. MemoryConfigBackend in tests) */
+  backend?: ConfigBackend;
+  /** Send `If-None-Match` and reuse unchanged responses and the last Config (default: true) */
+  conditional?: boolean;
+}
+
+/**
+ * Load statistics of a ConfigClient
+ * Hits are `notModified + unchanged`.
+ */
+export interface ConfigClientStats {
+  /** load() calls that fetched the configuration */
+  loads: number;
+  /** load() calls that joined an in-flight load */
+  deduplicated: number;
+  /** Application responses answered with 304 Not Modified */
+  notModified: number;
+  /** Application responses whose version and state were unchanged */
+  unchanged: number;
+  /** Application responses with new content (or without a version) */
+  misses: number;
+  /** Loads that returned the previous Config instance */
+  reused: number;
+}
+
+/**
+ * Config creation options
+ */
+export interface ConfigOptions {
+  /** Whether the response was served from the fallback cache */
+  stale?: boolean;
+  /** Time the response was cached (epoch ms) */
+  cachedAt?: number | null;
+  /** Decryptor for `{cipher}` values (default: values are left encrypted) */
+  decryptor?: TextDecryptor;
+  /** `${...}` placeholder resolution (default: true, or a custom resolver) */
+  placeholders?: boolean | PlaceholderResolver;
+  /** Applications skipped in optional mode, by application name */
+  loadErrors?: Record<string, ConfigClientError>;
+  /** Sensitive key patterns for sanitized views (default: DEFAULT_SENSITIVE_KEYS) */
+  sensitiveKeys?: readonly (string | RegExp)[];
+}
+
+/**
+ * Sanitized view options
+ */
+export interface SanitizeOptions {
+  /** Whether sensitive values are masked (default: false, except `toJSON()` which masks unless `false` is passed) */
+  sanitize?: boolean;
+}
+
+/**
+ * dotenv export options
+ */
+export interface EnvExportOptions extends SanitizeOptions {
+  /** Prefix of every variable name (ex. 'APP_') */
+  prefix?: string;
+}
+
+/**
+ * process.env injection options
+ */
+export interface EnvInjectOptions extends EnvExportOptions {
+  /** Replace variables that are already set (default: false) */
+  overwrite?: boolean;
+  /** Target environment (default: process.env) */
+  env?: Record<string, string | undefined>;
 }
 
 /**
@@ -76,14 +594,62 @@ export interface IConfig {
   readonly label: string | null;
   /** Git commit version */
   readonly version: string | null;
+  /** Whether the config was served from the fallback cache */
+  readonly stale: boolean;
+  /** Time the config was cached (epoch ms, null if fetched live) */
+  readonly cachedAt: number | null;
+  /** `{cipher}` values that could not be decrypted, by key */
+  readonly decryptionErrors: Record<string, ConfigDecryptionError>;
+  /** Applications that failed to load in optional mode, by application name */
+  readonly loadErrors: Record<string, ConfigClientError>;
 
   /**
-   * Get configuration value by dot notation
-   * @param key - Configuration key (e.g. 'database.host')
+   * Get configuration value by dot notation (with Spring relaxed binding fallback)
+   * @param key - Configuration key (e.g. 'database.host', 'database.max-pool-size')
    * @param defaultValue - Default value
    */
   get<T = unknown>(key: string, defaultValue?: T): T | undefined;
 
+  /**
+   * Get configuration value as number
+   * @throws ConfigCoercionError if the value is not numeric
+   */
+  getNumber(key: string, defaultValue?: number): number | undefined;
+
+  /**
+   * Get configuration value as boolean (true/false, on/off, yes/no, 1/0)
+   * @throws ConfigCoercionError if the value is not a boolean
+   */
+  getBoolean(key: string, defaultValue?: boolean): boolean | undefined;
+
+  /**
+   * Get configuration value as duration in milliseconds (e.g. 500, '30s', '5m', 'PT5M')
+   * @throws ConfigCoercionError if the value is not a duration
+   */
+  getDuration(key: string, defaultValue?: number): number | undefined;
+
+  /**
+   * Get configuration value as data size in bytes (e.g. 1024, '512KB', '10MB')
+   * @throws ConfigCoercionError if the value is not a data size
+   */
+  getDataSize(key: string, defaultValue?: number): number | undefined;
+
+  /**
+   * Get configuration value as list (array, comma-separated string or indexed `key[0]` keys)
+   */
+  getList<T = string>(key: string, defaultValue?: T[]): T[] | undefined;
+
+  /**
+   * Get the winning property source and shadowed values of a key
+   * @returns undefined if the key does not exist
+   */
+  origin(key: string): PropertyOrigin | undefined;
+
+  /**
+   * Get the origin of every key (like Spring's /actuator/env)
+   */
+  origins(): Record<string, PropertyOrigin>;
+
   /**
    * Check if configuration key exists
    * @param key - Configuration key
@@ -103,20 +669,448 @@ export interface IConfig {
   /**
    * Execute callback for all configuration key-value pairs
    */
-  forEach(callback: (value: unknown, key: string) => void): void;
+  forEach(callback: (value: unknown, key: string) => void, options?: SanitizeOptions): void;
+
+  /**
+   * Whether a key holds a sensitive value (password, secret, token ...)
+   */
+  isSensitive(key: string): boolean;
+
+  /**
+   * Flattened object with sensitive values masked (for logging)
+   */
+  toSanitizedFlatObject(): Record<string, unknown>;
+
+  /**
+   * Nested object with sensitive values masked (for logging)
+   */
+  toSanitizedObject(): Record<string, unknown>;
+
+  /**
+   * Serialize as YAML (lists are written as sequences)
+   */
+  toYaml(options?: SanitizeOptions): string;
+
+  /**
+   * Serialize as .properties (flat keys, escaped values)
+   */
+  toProperties(options?: SanitizeOptions): string;
+
+  /**
+   * Serialize as dotenv (Spring style `UPPER_SNAKE` names, quoted values)
+   */
+  toDotenv(options?: EnvExportOptions): string;
+
+  /**
+   * Copy properties into process.env as `UPPER_SNAKE` variables
+   * @returns names of the variables that were set
+   */
+  injectEnv(options?: EnvInjectOptions): string[];
+}
+
+/**
+ * Auto refresh (watch) options
+ */
+export interface WatchOptions {
+  /** Polling interval (ms, default: 30000) */
+  interval?: number;
+}
+
+/**
+ * Configuration change event
+ */
+export interface ConfigChangeEvent {
+  /** Last successfully loaded configuration */
+  previous: IConfig;
+  /** Newly loaded configuration */
+  current: IConfig;
+  /** Keys that only exist in the new configuration */
+  added: string[];
+  /** Keys that no longer exist in the new configuration */
+  removed: string[];
+  /** Keys whose value has changed */
+  modified: string[];
+}
+
+/**
+ * ConfigWatcher event listeners
+ */
+export interface ConfigWatcherEvents {
+  /** Called when a refresh produces a different version or property set */
+  change: (event: ConfigChangeEvent) => void;
+  /** Called when a refresh fails (the last good config is kept) or a change listener throws */
+  error: (error: Error) => void;
+}
+
+/**
+ * Kind of property change
+ */
+export type PropertyChangeType = "added" | "removed" | "changed";
+
+/**
+ * Single property difference
+ */
+export interface PropertyChange {
+  /** Flat key */
+  key: string;
+  type: PropertyChangeType;
+  /** Value in the old configuration (undefined for added keys) */
+  oldValue?: unknown;
+  /** Value in the new configuration (undefined for removed keys) */
+  newValue?: unknown;
+}
+
+/**
+ * Property differences of one property source (matched by name)
+ */
+export interface PropertySourceDiff {
+  /** Property source name */
+  source: string;
+  /** added: only in the new configuration, removed: only in the old one, changed: in both */
+  type: PropertyChangeType;
+  /** Property changes in key order */
+  changes: PropertyChange[];
+}
+
+/**
+ * Differences between two configurations
+ */
+export interface ConfigDiff {
+  /** Version of the old configuration */
+  fromVersion: string | null;
+  /** Version of the new configuration */
+  toVersion: string | null;
+  /** Keys that only exist in the new configuration */
+  added: PropertyChange[];
+  /** Keys that only exist in the old configuration */
+  removed: PropertyChange[];
+  /** Keys whose value has changed */
+  changed: PropertyChange[];
+  /** Changed property sources (only with `sources: true`) */
+  sources?: PropertySourceDiff[];
+}
+
+/**
+ * Diff options
+ */
+export interface DiffOptions {
+  /** Mask sensitive values in the result (default: true) */
+  sanitize?: boolean;
+  /** Sensitive key patterns (default: DEFAULT_SENSITIVE_KEYS) */
+  sensitiveKeys?: readonly (string | RegExp)[];
+  /** Include per property source differences (default: false) */
+  sources?: boolean;
+}
+
+/**
+ * Profiles and label compared by ConfigClient.diff (omitted fields use the client's own)
+ */
+export interface ConfigDiffTarget {
+  profiles?: string[];
+  label?: string;
+}
+
+/**
+ * Applications and profiles targeted by a ConfigClient
+ */
+export interface ConfigTarget {
+  applications: string[];
+  profiles: string[];
+  label: string;
+}
+
+/**
+ * Spring Cloud Bus refresh event payload (RefreshRemoteApplicationEvent)
+ */
+export interface BusRefreshEvent {
+  /** Event type (e.g. 'RefreshRemoteApplicationEvent') */
+  type?: string;
+  /** Destination pattern (e.g. 'my-app:**', 'my-app:dev:**', '**') */
+  destinationService?: string;
+  /** Origin service id */
+  originService?: string;
+  /** Event id */
+  id?: string;
+  /** Event timestamp */
+  timestamp?: number;
+}
+
+/**
+ * Config Server /monitor webhook payload
+ * Either explicit changed file paths or a git push event body.
+ */
+export interface MonitorNotification {
+  /** Changed file path(s) (e.g. 'my-app-dev.yml') */
+  path?: string | string[];
+  /** Git push commits */
+  commits?: { added?: string[]; modified?: string[]; removed?: string[] }[];
+}
+
+/**
+ * Refresh notification accepted by RefreshListener
+ */
+export type RefreshNotification = BusRefreshEvent | MonitorNotification;
+
+/**
+ * Schema property type
+ */
+export type PropertyType = "string" | "number" | "boolean" | "object" | "array";
+
+/**
+ * Schema property declaration
+ */
+export interface PropertySchema<T = unknown> {
+  /** Expected type (numeric/boolean strings from .properties sources are coerced) */
+  type: PropertyType;
+  /** Whether the key must be present (default: false) */
+  required?: boolean;
+  /** Value used when the key is absent */
+  default?: T;
+  /** Allowed values */
+  enum?: readonly T[];
+  /** Minimum value (number) or length (string, array) */
+  min?: number;
+  /** Maximum value (number) or length (string, array) */
+  max?: number;
+  /** Pattern a string value must match */
+  pattern?: RegExp;
+}
+
+/**
+ * Config schema: property declarations or nested schemas by key
+ */
+export interface ConfigSchema {
+  [key: string]: PropertySchema | ConfigSchema;
+}
+
+type PropertyTypeMap = {
+  string: string;
+  number: number;
+  boolean: boolean;
+  object: Record<string, unknown>;
+  array: unknown[];
+};
+
+type InferProperty<P extends PropertySchema> = P["enum"] extends readonly (infer E)[] ? E : PropertyTypeMap[P["type"]];
+
+type InferEntry<P> = P extends PropertySchema ? InferProperty<P> : P extends ConfigSchema ? InferSchema<P> : never;
+
+type RequiredKeys<S extends ConfigSchema> = {
+  [K in keyof S]: S[K] extends PropertySchema ? (S[K] extends { required: true } | { default: unknown } ? K : never) : K;
+}[keyof S];
+
+/**
+ * Typed object bound from a ConfigSchema
+ */
+export type InferSchema<S extends ConfigSchema> = {
+  [K in RequiredKeys<S>]: InferEntry<S[K]>;
+} & {
+  [K in Exclude<keyof S, RequiredKeys<S>>]?: InferEntry<S[K]>;
+};
+
+/**
+ * Validation issue
+ */
+export interface ValidationIssue {
+  /** Full dot notation key (e.g. 'database.port') */
+  key: string;
+  /** Issue description */
+  message: string;
+  /** Name of the property source the value came from */
+  source?: string;
+}
+
+/**
+ * Validator result
+ */
+export type ValidationResult<T> = { value: T; issues?: undefined } | { value?: undefined; issues: ValidationIssue[] };
+
+/**
+ * Library-agnostic validator interface (see fromZod, fromJoi)
+ */
+export interface ConfigValidator<T> {
+  validate(value: unknown): ValidationResult<T>;
 }
 
 /**
  * HTTP request error
  */
 export class ConfigClientError extends Error {
-  constructor(message: string, public readonly statusCode?: number, public readonly endpoint?: string) {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+    public readonly endpoint?: string,
+    public readonly failures: EndpointFailure[] = []
+  ) {
     super(message);
     this.name = "ConfigClientError";
   }
 }
 
+/**
+ * Config not found error (404)
+ */
+export class ConfigNotFoundError extends ConfigClientError {
+  constructor(message: string, statusCode?: number, endpoint?: string, failures?: EndpointFailure[]) {
+    super(message, statusCode, endpoint, failures);
+    this.name = "ConfigNotFoundError";
+  }
+}
+
+/**
+ * Authentication or authorization error (401, 403)
+ */
+export class ConfigUnauthorizedError extends ConfigClientError {
+  constructor(message: string, statusCode?: number, endpoint?: string, failures?: EndpointFailure[]) {
+    super(message, statusCode, endpoint, failures);
+    this.name = "ConfigUnauthorizedError";
+  }
+}
+
+/**
+ * Request timeout error
+ */
+export class ConfigTimeoutError extends ConfigClientError {
+  constructor(message: string, statusCode?: number, endpoint?: string, failures?: EndpointFailure[]) {
+    super(message, statusCode, endpoint, failures);
+    this.name = "ConfigTimeoutError";
+  }
+}
+
+/**
+ * Network error (connection refused, DNS failure, reset ...)
+ */
+export class ConfigNetworkError extends ConfigClientError {
+  constructor(message: string, statusCode?: number, endpoint?: string, failures?: EndpointFailure[]) {
+    super(message, statusCode, endpoint, failures);
+    this.name = "ConfigNetworkError";
+  }
+}
+
+/**
+ * Malformed Config Server response error
+ */
+export class ConfigInvalidResponseError extends ConfigClientError {
+  constructor(message: string, statusCode?: number, endpoint?: string, failures?: EndpointFailure[]) {
+    super(message, statusCode, endpoint, failures);
+    this.name = "ConfigInvalidResponseError";
+  }
+}
+
+/**
+ * `{cipher}` value decryption error
+ */
+export class ConfigDecryptionError extends ConfigClientError {
+  constructor(message: string, public readonly key?: string) {
+    super(message);
+    this.name = "ConfigDecryptionError";
+  }
+}
+
+/**
+ * Placeholder resolution error (circular reference)
+ */
+export class ConfigPlaceholderError extends ConfigClientError {
+  constructor(message: string, public readonly key?: string) {
+    super(message);
+    this.name = "ConfigPlaceholderError";
+  }
+}
+
+/**
+ * Typed accessor coercion error
+ */
+export class ConfigCoercionError extends ConfigClientError {
+  constructor(message: string, public readonly key: string, public readonly value: unknown) {
+    super(message);
+    this.name = "ConfigCoercionError";
+  }
+}
+
+/**
+ * Schema validation error (lists every offending key)
+ */
+export class ConfigValidationError extends ConfigClientError {
+  constructor(message: string, public readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = "ConfigValidationError";
+  }
+}
+
 /**
  * Response format type
  */
 export type ResponseFormat = "json" | "yaml" | "properties";
+
+/**
+ * Multi-format load options
+ */
+export interface FormatLoadOptions {
+  /** Whether the server resolves `${...}` placeholders (default: server default, true) */
+  resolvePlaceholders?: boolean;
+}
+
+/**
+ * Plain-text resource options
+ */
+export interface ResourceOptions {
+  /** Whether the server resolves `${...}` placeholders in the file (default: server default, true) */
+  resolvePlaceholders?: boolean;
+}
+
+/**
+ * Actuator diagnostics options
+ */
+export interface DiagnosticsOptions {
+  /** Request timeout (ms, default: 2000); diagnostics never retry */
+  timeout?: number;
+  /** Endpoint to inspect (default: the first healthy endpoint) */
+  endpoint?: string;
+}
+
+/**
+ * Health of one actuator component (ex. 'configServer', 'diskSpace')
+ */
+export interface HealthComponent {
+  /** Status ('UP', 'DOWN', 'OUT_OF_SERVICE', 'UNKNOWN' or custom) */
+  status: string;
+  /** Component details */
+  details?: Record<string, unknown>;
+  /** Nested components */
+  components?: Record<string, HealthComponent>;
+}
+
+/**
+ * Config Server health (`/actuator/health`)
+ */
+export interface ConfigServerHealth extends HealthComponent {
+  /** Whether the status is 'UP' */
+  up: boolean;
+  /** Inspected endpoint */
+  endpoint: string;
+  /** HTTP status code (undefined if the server did not answer) */
+  statusCode?: number;
+  /** Round trip time (ms) */
+  responseTime: number;
+  /** Why the health could not be read (network error, timeout, invalid body) */
+  error?: string;
+}
+
+/**
+ * Config Server environment (`/actuator/env`)
+ */
+export interface ActuatorEnvironment {
+  activeProfiles: string[];
+  propertySources: {
+    name: string;
+    properties?: Record<string, { value: unknown; origin?: string }>;
+  }[];
+}
+
+/**
+ * loadAs() options
+ */
+export interface LoadAsOptions extends FormatLoadOptions {
+  /** Return type: raw text or parsed nested object (default: 'text') */
+  target?: "text" | "object";
+}
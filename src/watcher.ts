@@ -0,0 +1,231 @@
+import type { ConfigClient } from "./client";
+import { Config } from "./config";
+import { diffConfig } from "./diff";
+import { ConfigChangeEvent, ConfigTarget, ConfigWatcherEvents, WatchOptions } from "./types";
+
+/**
+ * default options
+ */
+const DEFAULT_OPTIONS = {
+  interval: 30000,
+};
+
+/**
+ * Polling based config watcher
+ * Periodically reloads the configuration and emits change events.
+ */
+export class ConfigWatcher {
+  private readonly client: ConfigClient;
+  private readonly interval: number;
+  private readonly listeners: { [E in keyof ConfigWatcherEvents]: Set<ConfigWatcherEvents[E]> } = {
+    change: new Set(),
+    error: new Set(),
+  };
+  private current: Config | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private starting: Promise<Config> | null = null;
+
+  constructor(client: ConfigClient, options: WatchOptions = {}) {
+    this.client = client;
+    this.interval = options.interval ?? DEFAULT_OPTIONS.interval;
+  }
+
+  /**
+   * Last successfully loaded configuration
+   */
+  get config(): Config | null {
+    return this.current;
+  }
+
+  /**
+   * Applications, profiles and label of the watched client
+   */
+  get target(): ConfigTarget {
+    return this.client.target;
+  }
+
+  /**
+   * Whether polling is active
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Whether a load of the watched client is in progress
+   */
+  get isLoading(): boolean {
+    return this.client.isLoading;
+  }
+
+  /**
+   * Load the initial configuration and start polling
+   * @returns initial Config
+   */
+  async start(): Promise<Config> {
+    if (this.running && this.current) {
+      return this.current;
+    }
+
+    // overlapping calls share the initial load, so only one polling timer is scheduled
+    this.running = true;
+    this.starting ??= this.begin().finally(() => {
+      this.starting = null;
+    });
+
+    return this.starting;
+  }
+
+  /**
+   * Reload the configuration immediately
+   * On failure, the error is emitted and the last good config is returned.
+   * @returns current Config
+   */
+  async refresh(): Promise<Config> {
+    let next: Config;
+
+    try {
+      next = await this.client.load();
+    } catch (error) {
+      if (!this.current) throw error;
+      this.emit("error", error as Error);
+      return this.current;
+    }
+
+    // optional mode: a partial refresh must not drop the keys of applications that failed this time
+    const [loadError] = Object.values(next.loadErrors);
+    if (loadError && this.current) {
+      this.emit("error", loadError);
+      return this.current;
+    }
+
+    const previous = this.current;
+    this.current = next;
+
+    if (previous) {
+      const event = this.diff(previous, next);
+      if (event) {
+        this.emit("change", event);
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Stop polling (the last loaded config stays available)
+   */
+  stop(): void {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Stop polling and remove all listeners
+   */
+  dispose(): void {
+    this.stop();
+    this.listeners.change.clear();
+    this.listeners.error.clear();
+  }
+
+  /**
+   * Event listener register
+   */
+  on<E extends keyof ConfigWatcherEvents>(event: E, listener: ConfigWatcherEvents[E]): this {
+    this.listeners[event].add(listener);
+    return this;
+  }
+
+  /**
+   * Event listener remover
+   */
+  off<E extends keyof ConfigWatcherEvents>(event: E, listener: ConfigWatcherEvents[E]): this {
+    this.listeners[event].delete(listener);
+    return this;
+  }
+
+  /**
+   * Next poll scheduler
+   * setTimeout is used instead of setInterval so that slow loads never overlap.
+   */
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (!this.running) return;
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.refresh();
+      } catch (error) {
+        this.emit("error", error as Error);
+      } finally {
+        this.schedule();
+      }
+    }, this.interval);
+
+    // do not keep the process alive only for polling
+    this.timer.unref?.();
+  }
+
+  /**
+   * Initial load and polling start
+   */
+  private async begin(): Promise<Config> {
+    let config: Config;
+
+    try {
+      config = this.current ?? (await this.client.load());
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+
+    this.current = config;
+    // stop() may have been called while the initial load was pending
+    this.schedule();
+
+    return config;
+  }
+
+  /**
+   * Event emitter
+   * A throwing change listener is reported to the error listeners; errors thrown by error listeners are dropped,
+   * so a faulty listener can neither break polling nor cause an unhandled rejection.
+   */
+  private emit<E extends keyof ConfigWatcherEvents>(event: E, ...args: Parameters<ConfigWatcherEvents[E]>): void {
+    for (const listener of this.listeners[event]) {
+      try {
+        (listener as (...params: Parameters<ConfigWatcherEvents[E]>) => void)(...args);
+      } catch (error) {
+        if (event === "change") this.emit("error", error as Error);
+      }
+    }
+  }
+
+  /**
+   * Change event builder
+   * @returns null when neither the version nor the properties changed
+   */
+  private diff(previous: Config, current: Config): ConfigChangeEvent | null {
+    const { added, removed, changed } = diffConfig(previous, current, { sanitize: false });
+
+    if (previous.version === current.version && added.length + removed.length + changed.length === 0) {
+      return null;
+    }
+
+    return {
+      previous,
+      current,
+      added: added.map((change) => change.key),
+      removed: removed.map((change) => change.key),
+      modified: changed.map((change) => change.key),
+    };
+  }
+}
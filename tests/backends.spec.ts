@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { createClient, ConfigClientError, ConfigNotFoundError, FileConfigBackend, MemoryConfigBackend } from "../src";
+import { mockFetch } from "./fixtures";
+
+describe("FileConfigBackend", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    mockFetch.mockReset();
+    directory = await mkdtemp(join(tmpdir(), "config-client-repo-"));
+
+    await writeFile(join(directory, "application.yml"), "server:\n  port: 8080\nshared: base\n");
+    await writeFile(join(directory, "application-dev.properties"), "shared=dev\n");
+    await writeFile(
+      join(directory, "my-app.yml"),
+      [
+        "database:",
+        "  host: localhost",
+        "  replicas:",
+        "    - a",
+        "    - b",
+        "---",
+        "spring.config.activate.on-profile: prod",
+        "database.host: prod-db",
+        "---",
+        "spring:",
+        "  profiles: dev",
+        "database.pool: 5",
+      ].join("\n")
+    );
+    await writeFile(join(directory, "my-app-dev.yml"), "database:\n  host: dev-db\n");
+    await writeFile(join(directory, "my-app-dev.properties"), "database.user=dev-user\n");
+    await writeFile(join(directory, "other-app.yml"), "other: true\n");
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should order property sources like the config server", async () => {
+    const response = await new FileConfigBackend({ directory }).environment("my-app", ["dev"], "main");
+
+    expect(response.propertySources.map((source) => source.name)).toEqual([
+      `file:${join(directory, "my-app-dev.properties")}`,
+      `file:${join(directory, "my-app-dev.yml")}`,
+      `file:${join(directory, "application-dev.properties")}`,
+      `file:${join(directory, "my-app.yml")} (document #2)`,
+      `file:${join(directory, "my-app.yml")} (document #0)`,
+      `file:${join(directory, "application.yml")}`,
+    ]);
+    expect(response).toMatchObject({ name: "my-app", profiles: ["dev"], label: "main", version: null });
+  });
+
+  it("should load through ConfigClient with a file: endpoint", async () => {
+    const config = await createClient({
+      endpoint: `file:${directory}`,
+      application: "my-app",
+      profiles: ["dev"],
+    }).load();
+
+    expect(config.get("database.host")).toBe("dev-db");
+    expect(config.get("database.user")).toBe("dev-user");
+    expect(config.get("database.pool")).toBe(5);
+    expect(config.get("database.replicas")).toEqual(["a", "b"]);
+    expect(config.get("shared")).toBe("dev");
+    expect(config.get("server.port")).toBe(8080);
+    expect(config.has("other")).toBe(false);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should use the documents activated for the requested profile", async () => {
+    const config = await createClient({
+      endpoint: pathToFileURL(directory).href,
+      application: "my-app",
+      profiles: ["prod"],
+    }).load();
+
+    expect(config.get("database.host")).toBe("prod-db");
+    expect(config.has("database.pool")).toBe(false);
+    expect(config.get("shared")).toBe("base");
+  });
+
+  it("should resolve {label} directories and report missing labels as not found", async () => {
+    await mkdir(join(directory, "release"));
+    await writeFile(join(directory, "release", "my-app.properties"), "release=true\n");
+    const backend = new FileConfigBackend({ directory: join(directory, "{label}") });
+
+    const config = await createClient({ backend, application: "my-app", label: "release" }).load();
+    expect(config.get("release")).toBe("true");
+
+    await expect(createClient({ backend, application: "my-app", label: "missing" }).load()).rejects.toThrow(
+      ConfigNotFoundError
+    );
+  });
+
+  it("should serialize formats locally", async () => {
+    const client = createClient({ endpoint: `file:${directory}`, application: "my-app", profiles: ["dev"] });
+
+    expect(await client.loadAsProperties()).toContain("database.host=dev-db\n");
+    await expect(client.getResource("nginx.conf")).rejects.toThrow(ConfigClientError);
+  });
+
+  it("should reject a file: endpoint mixed with server endpoints", () => {
+    expect(() => createClient({ endpoint: [`file:${directory}`, "http://localhost:8888"], application: "x" })).toThrow(
+      ConfigClientError
+    );
+  });
+});
+
+describe("MemoryConfigBackend", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should serve fixtures in config repository order", async () => {
+    const backend = new MemoryConfigBackend({
+      application: { server: { port: 8080 }, shared: "base" },
+      "my-app": { shared: "app" },
+      "my-app-dev": { "database.host": "dev-db" },
+      "my-app-prod": { "database.host": "prod-db" },
+    });
+
+    const config = await createClient({ backend, application: "my-app", profiles: ["dev"] }).load();
+
+    expect(config.raw.propertySources.map((source) => source.name)).toEqual([
+      "memory:my-app-dev",
+      "memory:my-app",
+      "memory:application",
+    ]);
+    expect(config.toFlatObject()).toEqual({ "database.host": "dev-db", shared: "app", "server.port": 8080 });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should let later profiles win", async () => {
+    const backend = new MemoryConfigBackend({
+      "my-app-dev": { value: "dev" },
+      "my-app-cloud": { value: "cloud" },
+    });
+
+    const config = await createClient({ backend, application: "my-app", profiles: ["dev", "cloud"] }).load();
+
+    expect(config.get("value")).toBe("cloud");
+  });
+
+  it("should serve loadAs objects and reject diagnostics without a server", async () => {
+    const backend = new MemoryConfigBackend({ "my-app": { database: { host: "memory-db" } } });
+    const client = createClient({ backend, application: "my-app" });
+
+    expect(await client.loadAs("yaml", { target: "object" })).toEqual({ database: { host: "memory-db" } });
+    await expect(client.info()).rejects.toThrow(ConfigClientError);
+    await expect(client.environment()).rejects.toThrow("No config server endpoint configured");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should bump the version when fixtures change", async () => {
+    const backend = new MemoryConfigBackend({ "my-app": { feature: false } });
+    const watcher = createClient({ backend, application: "my-app" }).watch();
+    const onChange = vi.fn();
+    watcher.on("change", onChange);
+
+    await watcher.start();
+    backend.set("my-app", { feature: true });
+    const config = await watcher.refresh();
+    watcher.dispose();
+
+    expect(config.get("feature")).toBe(true);
+    expect(config.version).toBe("1");
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ modified: ["feature"] }));
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { chmod, mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient, ConfigClientError, FileConfigCache, MemoryConfigCache } from "../src";
+import { buildResponse, mockFetch, okResponse } from "./fixtures";
+
+const mockResponse = buildResponse(
+  { "database.host": "localhost", "database.password": "s3cr3t" },
+  { profiles: ["dev"] }
+);
+
+describe("Offline fallback cache", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should fall back to the cached config when the server is down", async () => {
+    const store = new MemoryConfigCache();
+    const client = createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { maxRetries: 0 },
+      cache: { store },
+    });
+
+    mockFetch.mockResolvedValueOnce(okResponse(mockResponse));
+    const live = await client.load();
+    expect(live.stale).toBe(false);
+
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    const cached = await client.load();
+
+    expect(cached.stale).toBe(true);
+    expect(cached.cachedAt).toEqual(expect.any(Number));
+    expect(cached.get("database.host")).toBe("localhost");
+    expect(cached.toString()).toContain("stale=true");
+  });
+
+  it("should throw when the cached config is older than maxAge", async () => {
+    const store = new MemoryConfigCache();
+    const client = createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { maxRetries: 0 },
+      cache: { store, maxAge: 1000 },
+    });
+
+    mockFetch.mockResolvedValueOnce(okResponse(mockResponse));
+    await client.load();
+
+    const [cacheKey, entry] = [...store["entries"].entries()][0];
+    await store.set(cacheKey, { ...entry, cachedAt: Date.now() - 5000 });
+
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    await expect(client.load()).rejects.toThrow(ConfigClientError);
+  });
+
+  it("should not share cache entries between different profiles", async () => {
+    const store = new MemoryConfigCache();
+    const options = { endpoint: "http://localhost:8000", application: "my-app", retry: { maxRetries: 0 } };
+
+    mockFetch.mockResolvedValueOnce(okResponse(mockResponse));
+    await createClient({ ...options, profiles: ["dev"], cache: { store } }).load();
+
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    await expect(createClient({ ...options, profiles: ["prod"], cache: { store } }).load()).rejects.toThrow();
+  });
+});
+
+describe("FileConfigCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "config-client-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should persist and read entries", async () => {
+    const cache = new FileConfigCache({ directory });
+    await cache.set("key", { response: mockResponse, cachedAt: 1 });
+
+    await expect(cache.get("key")).resolves.toEqual({ response: mockResponse, cachedAt: 1 });
+    await expect(cache.get("missing")).resolves.toBeNull();
+  });
+
+  it("should encrypt cached files when an encryption key is configured", async () => {
+    const cache = new FileConfigCache({ directory, encryptionKey: "passphrase" });
+    await cache.set("key", { response: mockResponse, cachedAt: 1 });
+
+    const [file] = await readdir(directory);
+    const content = await readFile(join(directory, file), "utf8");
+
+    expect(content).not.toContain("s3cr3t");
+    await expect(cache.get("key")).resolves.toEqual({ response: mockResponse, cachedAt: 1 });
+    await expect(new FileConfigCache({ directory, encryptionKey: "wrong" }).get("key")).resolves.toBeNull();
+  });
+
+  it("should not use a directory that others can access", async () => {
+    const cache = new FileConfigCache({ directory });
+    await cache.set("key", { response: mockResponse, cachedAt: 1 });
+    await chmod(directory, 0o777);
+
+    await expect(cache.get("key")).resolves.toBeNull();
+    await expect(cache.set("key", { response: mockResponse, cachedAt: 2 })).rejects.toThrow(ConfigClientError);
+  });
+
+  it("should ignore plaintext files when an encryption key is configured", async () => {
+    await new FileConfigCache({ directory }).set("key", { response: mockResponse, cachedAt: 1 });
+
+    await expect(new FileConfigCache({ directory, encryptionKey: "passphrase" }).get("key")).resolves.toBeNull();
+  });
+});
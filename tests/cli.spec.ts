@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { runCli, EXIT_CODES } from "../src/cli";
+import { buildResponse, errorResponse, mockFetch, okResponse } from "./fixtures";
+
+const profileResponse = (profile: string, source: Record<string, unknown>) =>
+  buildResponse(
+    {},
+    {
+      profiles: [profile],
+      propertySources: [
+        { name: `my-app-${profile}.yml`, source },
+        { name: "application.yml", source: { "server.port": 8080, "database.host": "base-host" } },
+      ],
+    }
+  );
+
+/**
+ * CLI runner capturing the output streams
+ */
+async function run(...argv: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCli(["-e", "http://localhost:8000", "-a", "my-app", ...argv], {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+    env: {},
+  });
+  return { code, stdout, stderr };
+}
+
+describe("CLI", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    const response = profileResponse("dev", { "database.host": "dev-host", "database.password": "s3cret" });
+    mockFetch.mockImplementation(() => Promise.resolve(okResponse(response)));
+  });
+
+  it("should print the merged config in every format", async () => {
+    const json = await run("show", "-p", "dev");
+    expect(json.code).toBe(EXIT_CODES.success);
+    expect(JSON.parse(json.stdout)).toEqual({
+      server: { port: 8080 },
+      database: { host: "dev-host", password: "s3cret" },
+    });
+    expect(mockFetch.mock.calls[0][0]).toBe("http://localhost:8000/my-app/dev/main");
+
+    expect((await run("show", "-f", "properties")).stdout).toContain("database.host=dev-host\n");
+    expect((await run("show", "-f", "yaml")).stdout).toContain("database:\n  host: dev-host\n");
+    expect((await run("show", "-f", "env")).stdout).toContain("DATABASE_HOST=dev-host\n");
+  });
+
+  it("should mask sensitive values on request", async () => {
+    const { stdout } = await run("show", "-f", "properties", "--mask");
+
+    expect(stdout).toContain("database.password=******\n");
+    expect(stdout).toContain("database.host=dev-host\n");
+    expect((await run("get", "database", "--mask")).stdout).toBe(
+      `${JSON.stringify({ host: "dev-host", password: "******" }, null, 2)}\n`
+    );
+  });
+
+  it("should look up a single key", async () => {
+    expect(await run("get", "database.host")).toEqual({ code: 0, stdout: "dev-host\n", stderr: "" });
+    expect((await run("get", "database")).stdout).toBe(
+      `${JSON.stringify({ host: "dev-host", password: "s3cret" }, null, 2)}\n`
+    );
+
+    const missing = await run("get", "database.port");
+    expect(missing.code).toBe(EXIT_CODES.notFound);
+    expect(missing.stderr).toContain("Key not found: database.port");
+  });
+
+  it("should show the origin of each value", async () => {
+    const { stdout } = await run("origins", "database.host");
+
+    expect(stdout).toBe("database.host=dev-host  <- my-app-dev.yml\n  (shadowed) base-host  <- application.yml\n");
+
+    const json = JSON.parse((await run("origins", "-f", "json")).stdout);
+    expect(json).toContainEqual({
+      key: "server.port",
+      source: "application.yml",
+      application: "my-app",
+      value: 8080,
+      shadowed: [],
+    });
+  });
+
+  it("should diff two profiles", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        okResponse(
+          url.includes("/prod/")
+            ? profileResponse("prod", { "database.host": "prod-host", "database.pool": 20 })
+            : profileResponse("dev", { "database.host": "dev-host", "database.password": "s3cret" })
+        )
+      )
+    );
+
+    const { code, stdout } = await run("diff", "--from-profile", "dev", "--to-profile", "prod", "--mask");
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout).toBe("+ database.pool=20\n- database.password=******\n~ database.host: dev-host -> prod-host\n");
+  });
+
+  it("should diff two labels", async () => {
+    await run("diff", "--from-label", "main", "--to-label", "release", "-f", "json");
+
+    const urls = mockFetch.mock.calls.map(([url]) => url);
+    expect(urls).toContain("http://localhost:8000/my-app/default/main");
+    expect(urls).toContain("http://localhost:8000/my-app/default/release");
+  });
+
+  it.each([
+    [404, EXIT_CODES.notFound],
+    [401, EXIT_CODES.unauthorized],
+    [503, EXIT_CODES.unavailable],
+  ])("should map server failures to exit codes (%i)", async (status, code) => {
+    mockFetch.mockResolvedValue(errorResponse(status));
+
+    expect((await run("show")).code).toBe(code);
+  });
+
+  it("should exit with the connectivity code when the server is unreachable", async () => {
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+    const { code, stderr } = await run("show");
+
+    expect(code).toBe(EXIT_CODES.unavailable);
+    expect(stderr).toContain("fetch failed");
+  });
+
+  it("should reject invalid usage", async () => {
+    expect((await run("deploy")).code).toBe(EXIT_CODES.usage);
+    expect((await run("show", "--unknown")).code).toBe(EXIT_CODES.usage);
+    expect((await run("show", "-f", "xml")).code).toBe(EXIT_CODES.usage);
+    expect((await run("diff")).code).toBe(EXIT_CODES.usage);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should read connection settings from the Spring environment variables", async () => {
+    await runCli(["show"], {
+      stdout: () => undefined,
+      env: {
+        SPRING_CLOUD_CONFIG_URI: "http://config:8888",
+        SPRING_APPLICATION_NAME: "my-app",
+        SPRING_PROFILES_ACTIVE: "dev,cloud",
+        SPRING_CLOUD_CONFIG_USERNAME: "user",
+        SPRING_CLOUD_CONFIG_PASSWORD: "pass",
+      },
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("http://config:8888/my-app/dev,cloud/main");
+    expect(init.headers.Authorization).toBe(`Basic ${Buffer.from("user:pass").toString("base64")}`);
+  });
+});
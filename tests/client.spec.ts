@@ -1,10 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { createClient, Config, ConfigClientError } from "../src";
+import {
+  createClient,
+  Config,
+  ConfigClientError,
+  ConfigCoercionError,
+  ConfigPlaceholderError,
+  RefreshListener,
+} from "../src";
 import type { ConfigResponse } from "../src";
-
-// Mock fetch
-const mockFetch = vi.fn();
-globalThis.fetch = mockFetch;
+import { parseProperties, parseYaml } from "../src/formats";
+import { envToKey, flatten } from "../src/keys";
+import { buildResponse, errorResponse, mockFetch, okResponse } from "./fixtures";
 
 describe("ConfigClient", () => {
   beforeEach(() => {
@@ -59,10 +65,7 @@ describe("ConfigClient", () => {
     };
 
     it("should load config successfully", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockResponse),
-      });
+      mockFetch.mockResolvedValueOnce(okResponse(mockResponse));
 
       const client = createClient({
         endpoint: "http://localhost:8000",
@@ -82,11 +85,7 @@ describe("ConfigClient", () => {
     });
 
     it("should throw ConfigClientError on HTTP error", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-        statusText: "Not Found",
-      });
+      mockFetch.mockResolvedValueOnce(errorResponse(404, "Not Found"));
 
       const client = createClient({
         endpoint: "http://localhost:8000",
@@ -98,10 +97,7 @@ describe("ConfigClient", () => {
     });
 
     it("should include API key header when auth is provided", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockResponse),
-      });
+      mockFetch.mockResolvedValueOnce(okResponse(mockResponse));
 
       const client = createClient({
         endpoint: "http://localhost:8000",
@@ -121,6 +117,50 @@ describe("ConfigClient", () => {
       );
     });
   });
+
+  describe("loadAs", () => {
+    const mockText = (text: string) => mockFetch.mockResolvedValueOnce(new Response(text));
+
+    it("should request every application with all profiles and the label", async () => {
+      mockText("a: 1\n");
+
+      const client = createClient({
+        endpoint: "http://localhost:8000",
+        application: "my-app",
+        profiles: ["dev", "local"],
+        label: "develop",
+      });
+      const yaml = await client.loadAsYaml({ resolvePlaceholders: false });
+
+      expect(yaml).toBe("a: 1\n");
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        "http://localhost:8000/develop/my-app-dev,local.yml?resolvePlaceholders=false"
+      );
+    });
+
+    it("should merge multiple applications with the last one winning", async () => {
+      mockText("shared.timeout=10\napp.name=shared\n");
+      mockText("app.name=my-app\n");
+
+      const client = createClient({ endpoint: "http://localhost:8000", application: ["shared", "my-app"] });
+
+      expect(await client.loadAsProperties()).toBe("shared.timeout=10\napp.name=my-app\n");
+      expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+        "http://localhost:8000/main/shared-default.properties",
+        "http://localhost:8000/main/my-app-default.properties",
+      ]);
+    });
+
+    it("should return parsed objects for the object target", async () => {
+      mockText('{"servers":["a","b"],"db":{"host":"x"}}');
+      mockText('{"servers":["c"]}');
+
+      const client = createClient({ endpoint: "http://localhost:8000", application: ["shared", "my-app"] });
+      const config = await client.loadAs("json", { target: "object" });
+
+      expect(config).toEqual({ servers: ["c"], db: { host: "x" } });
+    });
+  });
 });
 
 describe("Config", () => {
@@ -202,6 +242,58 @@ describe("Config", () => {
     expect(entries).toContainEqual(["database.port", 5432]);
   });
 
+  it("should resolve ${...} placeholders across property sources", () => {
+    process.env.CONFIG_CLIENT_TEST_HOST = "env-host";
+    try {
+      const config = new Config({
+        ...mockResponse,
+        propertySources: [
+          {
+            name: "file:my-app-dev.yml",
+            source: {
+              "app.url": "http://${database.host}:${database.port}/${app.path:api}",
+              "app.env-host": "${config.client.test.host}",
+              "app.nested": "${app.${app.selector}:none}",
+              "app.selector": "name",
+              "app.unresolved": "${missing.key}",
+            },
+          },
+          ...mockResponse.propertySources,
+        ],
+      });
+
+      expect(config.get("app.url")).toBe("http://dev-host:5432/api");
+      expect(config.get("app.env-host")).toBe("env-host");
+      expect(config.get("app.nested")).toBe("My Application");
+      expect(config.get("app.unresolved")).toBe("${missing.key}");
+      expect(config.toFlatObject()["app.url"]).toBe("http://dev-host:5432/api");
+      expect(config.toObject()).toMatchObject({ app: { url: "http://dev-host:5432/api" } });
+    } finally {
+      delete process.env.CONFIG_CLIENT_TEST_HOST;
+    }
+  });
+
+  it("should detect circular placeholder references", () => {
+    const response = {
+      ...mockResponse,
+      propertySources: [{ name: "file:my-app.yml", source: { a: "${b}", b: "${c}", c: "${a}" } }],
+    };
+
+    expect(() => new Config(response)).toThrow(ConfigPlaceholderError);
+  });
+
+  it("should allow disabling or customizing placeholder resolution", () => {
+    const response = {
+      ...mockResponse,
+      propertySources: [{ name: "file:my-app.yml", source: { url: "${HOST:localhost}" } }],
+    };
+
+    expect(new Config(response, { placeholders: false }).get("url")).toBe("${HOST:localhost}");
+    expect(new Config(response, { placeholders: (name) => (name === "HOST" ? "custom" : undefined) }).get("url")).toBe(
+      "custom"
+    );
+  });
+
   it("should expose raw response", () => {
     const config = new Config(mockResponse);
 
@@ -212,3 +304,563 @@ describe("Config", () => {
     expect(config.version).toBe("abc123");
   });
 });
+
+describe("Config property origins", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should report the winning source and shadowed values across applications", async () => {
+    const responses: Record<string, ConfigResponse> = {
+      common: {
+        name: "common",
+        profiles: ["dev"],
+        label: "main",
+        version: "v1",
+        state: null,
+        propertySources: [{ name: "file:application.yml", source: { "database.host": "common-host", "log.level": "info" } }],
+      },
+      "my-app": {
+        name: "my-app",
+        profiles: ["dev"],
+        label: "main",
+        version: "v1",
+        state: null,
+        propertySources: [
+          { name: "file:my-app-dev.yml", source: { "database.host": "dev-host" } },
+          { name: "file:my-app.yml", source: { "database.host": "app-host" } },
+        ],
+      },
+    };
+    mockFetch.mockImplementation((url: string) => Promise.resolve(okResponse(responses[url.split("/")[3]])));
+
+    const config = await createClient({
+      endpoint: "http://localhost:8000",
+      application: ["common", "my-app"],
+      profiles: ["dev"],
+    }).load();
+
+    expect(config.origin("database.host")).toEqual({
+      key: "database.host",
+      source: "file:my-app-dev.yml",
+      application: "my-app",
+      value: "dev-host",
+      shadowed: [
+        { source: "file:my-app.yml", application: "my-app", value: "app-host" },
+        { source: "file:application.yml", application: "common", value: "common-host" },
+      ],
+    });
+    expect(config.origin("unknown.key")).toBeUndefined();
+    expect(Object.keys(config.origins())).toEqual(expect.arrayContaining(["database.host", "log.level"]));
+    expect(config.origins()["log.level"]).toMatchObject({ source: "file:application.yml", shadowed: [] });
+  });
+});
+
+describe("Config indexed keys", () => {
+  const config = new Config({
+    name: "my-app",
+    profiles: ["dev"],
+    label: "main",
+    version: "abc123",
+    state: null,
+    propertySources: [
+      {
+        name: "file:my-app-dev.yml",
+        source: {
+          "servers[0].host": "dev-a",
+          "matrix[0].rows[1]": "r1",
+          "matrix[0].rows[0]": "r0",
+        },
+      },
+      {
+        name: "file:my-app.yml",
+        source: {
+          "servers[0].host": "a",
+          "servers[1].host": "b",
+          "servers[2].host": "c",
+          "map[some.key]": "dotted",
+          "map[plain]": 1,
+        },
+      },
+    ],
+  });
+
+  it("should unflatten bracket indices into arrays", () => {
+    expect(config.toObject()).toEqual({
+      servers: [{ host: "dev-a" }],
+      matrix: [{ rows: ["r0", "r1"] }],
+      map: { "some.key": "dotted", plain: 1 },
+    });
+    expect(Array.isArray(config.properties.servers)).toBe(true);
+  });
+
+  it("should get values by indexed and bracketed map keys", () => {
+    expect(config.get("servers[0].host")).toBe("dev-a");
+    expect(config.get("servers[0]")).toEqual({ host: "dev-a" });
+    expect(config.get("matrix[0].rows[1]")).toBe("r1");
+    expect(config.get("map[some.key]")).toBe("dotted");
+    expect(config.get("map")).toEqual({ "some.key": "dotted", plain: 1 });
+  });
+
+  it("should replace lower priority lists instead of merging them", () => {
+    expect(config.get("servers[1].host")).toBeUndefined();
+    expect(config.getList("servers")).toEqual([{ host: "dev-a" }]);
+    expect(config.toFlatObject()).not.toHaveProperty("servers[2].host");
+  });
+
+  it("should replace indexed lists with a comma separated value of a higher priority source", () => {
+    const listConfig = new Config({
+      name: "my-app",
+      profiles: ["dev"],
+      label: "main",
+      version: null,
+      state: null,
+      propertySources: [
+        { name: "my-app-dev.properties", source: { "a.list": "x,y" } },
+        { name: "my-app.yml", source: { "a.list[0]": "p", "a.list[1]": "q", "a.other[0]": "kept" } },
+      ],
+    });
+
+    expect(listConfig.toFlatObject()).toEqual({ "a.list": "x,y", "a.other[0]": "kept" });
+    expect(listConfig.getList("a.list")).toEqual(["x", "y"]);
+    expect(listConfig.origin("a.list[0]")).toBeUndefined();
+  });
+});
+
+describe("Config secret masking", () => {
+  const buildConfig = (source: Record<string, unknown>, sensitiveKeys?: (string | RegExp)[]) =>
+    new Config(
+      {
+        name: "my-app",
+        profiles: ["default"],
+        label: "main",
+        version: "abc123",
+        state: null,
+        propertySources: [{ name: "app.yml", source }],
+      },
+      { sensitiveKeys }
+    );
+
+  it("should mask sensitive keys in sanitized views and keep raw values in get()", () => {
+    const config = buildConfig({
+      "spring.datasource.password": "p@ss",
+      "spring.datasource.url": "jdbc:postgresql://admin:p@ss@db:5432/app",
+      "app.api-key": "k",
+      "app.secret[0]": "s0",
+      "aws.credentials.id": "AKIA",
+      "app.name": "my-app",
+    });
+
+    expect(config.toSanitizedFlatObject()).toEqual({
+      "spring.datasource.password": "******",
+      "spring.datasource.url": "jdbc:postgresql://admin:******@db:5432/app",
+      "app.api-key": "******",
+      "app.secret[0]": "******",
+      "aws.credentials.id": "******",
+      "app.name": "my-app",
+    });
+    expect(config.toSanitizedObject()).toMatchObject({ app: { secret: ["******"] } });
+    expect(config.toJSON()).not.toContain("p@ss");
+    expect(config.toJSON({ sanitize: false })).toContain("p@ss");
+    expect(JSON.stringify({ config })).not.toContain("AKIA");
+    expect(config.get("spring.datasource.password")).toBe("p@ss");
+  });
+
+  it("should sanitize forEach on request", () => {
+    const config = buildConfig({ "db.password": "p@ss" });
+    const values: unknown[] = [];
+
+    config.forEach((value) => values.push(value), { sanitize: true });
+    config.forEach((value) => values.push(value));
+
+    expect(values).toEqual(["******", "p@ss"]);
+  });
+
+  it("should use configured patterns", () => {
+    const config = buildConfig({ "app.pin": "1234", "db.password": "p@ss" }, ["pin", /^internal\./]);
+
+    expect(config.isSensitive("app.pin")).toBe(true);
+    expect(config.isSensitive("internal.anything")).toBe(true);
+    expect(config.isSensitive("db.password")).toBe(false);
+  });
+});
+
+describe("Config export", () => {
+  const source = {
+    "spring.datasource.url": "jdbc:postgresql://db:5432/app",
+    "spring.datasource.password": "p@ss word",
+    "servers[0].host": "a",
+    "servers[0].port": 1,
+    "servers[1].host": "b",
+    "app.greeting": "hello # world",
+    "app.enabled": true,
+    "map[some.key]": "bracketed",
+  };
+  const config = new Config({
+    name: "my-app",
+    profiles: ["default"],
+    label: "main",
+    version: "abc123",
+    state: null,
+    propertySources: [{ name: "app.yml", source }],
+  });
+
+  it("should round-trip YAML and .properties with arrays", () => {
+    expect(flatten(parseYaml(config.toYaml())[0])).toEqual(source);
+    expect(parseProperties(config.toProperties())).toEqual(
+      Object.fromEntries(Object.entries(source).map(([key, value]) => [key, String(value)]))
+    );
+  });
+
+  it("should write dotenv with UPPER_SNAKE names and quoting", () => {
+    const dotenv = config.toDotenv({ prefix: "APP_" });
+
+    expect(dotenv).toContain("APP_SPRING_DATASOURCE_URL=jdbc:postgresql://db:5432/app\n");
+    expect(dotenv).toContain('APP_SPRING_DATASOURCE_PASSWORD="p@ss word"\n');
+    expect(dotenv).toContain("APP_SERVERS_1_HOST=b\n");
+    expect(dotenv).toContain('APP_APP_GREETING="hello # world"\n');
+    expect(dotenv).toContain("APP_MAP_SOME_KEY=bracketed\n");
+    expect(config.toDotenv({ sanitize: true })).toContain("SPRING_DATASOURCE_PASSWORD=******\n");
+
+    // unquoted names map back to the same keys (Spring relaxed env binding)
+    const names = dotenv.split("\n").map((line) => line.slice("APP_".length, line.indexOf("=")));
+    expect(names.map(envToKey)).toContain("servers[1].host");
+  });
+
+  it("should inject properties into an environment without overwriting", () => {
+    const env: Record<string, string | undefined> = { APP_ENABLED: "false" };
+
+    const injected = config.injectEnv({ env });
+
+    expect(injected).not.toContain("APP_ENABLED");
+    expect(env.APP_ENABLED).toBe("false");
+    expect(env.SERVERS_0_PORT).toBe("1");
+    expect(env.SPRING_DATASOURCE_PASSWORD).toBe("p@ss word");
+
+    config.injectEnv({ env, overwrite: true, prefix: "X_" });
+    config.injectEnv({ env, overwrite: true });
+    expect(env.APP_ENABLED).toBe("true");
+    expect(env.X_SERVERS_1_HOST).toBe("b");
+  });
+});
+
+describe("Config relaxed binding and typed accessors", () => {
+  const config = new Config({
+    name: "my-app",
+    profiles: ["dev"],
+    label: "main",
+    version: "abc123",
+    state: null,
+    propertySources: [
+      {
+        name: "systemEnvironment",
+        source: {
+          DATABASE_MAXPOOLSIZE: "20",
+        },
+      },
+      {
+        name: "file:my-app.properties",
+        source: {
+          "database.max-pool-size": "10",
+          "feature.enabled": "on",
+          "http.timeout": "30s",
+          "http.idle-timeout": "PT5M",
+          "upload.max-size": "10MB",
+          "cors.origins": "a.com, b.com",
+          "servers[1]": "two",
+          "servers[0]": "one",
+          "invalid.number": "abc",
+        },
+      },
+    ],
+  });
+
+  it("should look up keys with relaxed names", () => {
+    expect(config.get("database.maxPoolSize")).toBe("20");
+    expect(config.get("database.max-pool-size")).toBe("10");
+    expect(config.get("database.max_pool_size")).toBe("20");
+    expect(config.get("Feature.Enabled")).toBe("on");
+  });
+
+  it("should coerce typed values", () => {
+    expect(config.getNumber("database.maxPoolSize")).toBe(20);
+    expect(config.getBoolean("feature.enabled")).toBe(true);
+    expect(config.getDuration("http.timeout")).toBe(30000);
+    expect(config.getDuration("http.idleTimeout")).toBe(300000);
+    expect(config.getDataSize("upload.maxSize")).toBe(10 * 1024 * 1024);
+    expect(config.getList("cors.origins")).toEqual(["a.com", "b.com"]);
+    expect(config.getList("servers")).toEqual(["one", "two"]);
+  });
+
+  it("should return default values for missing keys", () => {
+    expect(config.getNumber("missing", 5)).toBe(5);
+    expect(config.getBoolean("missing")).toBeUndefined();
+    expect(config.getList("missing", [])).toEqual([]);
+  });
+
+  it("should name the key and raw value on coercion errors", () => {
+    expect(() => config.getNumber("invalid.number")).toThrow(ConfigCoercionError);
+    expect(() => config.getDuration("invalid.number")).toThrow(`Cannot convert 'invalid.number' value "abc" to duration`);
+  });
+});
+
+describe("ConfigWatcher", () => {
+  const mockJson = (version: string, source: Record<string, unknown>) =>
+    mockFetch.mockResolvedValueOnce(okResponse(buildResponse(source, { version })));
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should emit change event with added, removed and modified keys", async () => {
+    mockJson("v1", { "database.host": "a", "database.port": 5432, "old.key": true });
+    mockJson("v2", { "database.host": "b", "database.port": 5432, "new.key": 1 });
+
+    const watcher = createClient({ endpoint: "http://localhost:8000", application: "my-app" }).watch();
+    const listener = vi.fn();
+    watcher.on("change", listener);
+
+    await watcher.start();
+    await watcher.refresh();
+    watcher.stop();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const event = listener.mock.calls[0][0];
+    expect(event.added).toEqual(["new.key"]);
+    expect(event.removed).toEqual(["old.key"]);
+    expect(event.modified).toEqual(["database.host"]);
+    expect(event.current.version).toBe("v2");
+    expect(watcher.config?.get("database.host")).toBe("b");
+  });
+
+  it("should not emit change event when nothing changed", async () => {
+    mockJson("v1", { "database.host": "a" });
+    mockJson("v1", { "database.host": "a" });
+
+    const watcher = createClient({ endpoint: "http://localhost:8000", application: "my-app" }).watch();
+    const listener = vi.fn();
+    watcher.on("change", listener);
+
+    await watcher.start();
+    await watcher.refresh();
+    watcher.stop();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should keep the last good config when refresh fails", async () => {
+    mockJson("v1", { "database.host": "a" });
+    mockFetch.mockResolvedValueOnce(errorResponse(500, "Internal Server Error"));
+
+    const watcher = createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { maxRetries: 0 },
+    }).watch();
+    const onError = vi.fn();
+    watcher.on("error", onError);
+
+    const initial = await watcher.start();
+    const config = await watcher.refresh();
+    watcher.stop();
+
+    expect(config).toBe(initial);
+    expect(onError).toHaveBeenCalledWith(expect.any(ConfigClientError));
+  });
+
+  it("should poll on interval until stopped", async () => {
+    vi.useFakeTimers();
+    try {
+      mockJson("v1", { "database.host": "a" });
+      mockJson("v2", { "database.host": "b" });
+
+      const watcher = createClient({ endpoint: "http://localhost:8000", application: "my-app" }).watch({
+        interval: 1000,
+      });
+      const listener = vi.fn();
+      watcher.on("change", listener);
+
+      await watcher.start();
+      await vi.advanceTimersByTimeAsync(1000);
+      watcher.stop();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(watcher.isRunning).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should report throwing change listeners and keep polling", async () => {
+    vi.useFakeTimers();
+    try {
+      mockJson("v1", { "database.host": "a" });
+      mockJson("v2", { "database.host": "b" });
+      mockJson("v3", { "database.host": "c" });
+
+      const watcher = createClient({ endpoint: "http://localhost:8000", application: "my-app" }).watch({
+        interval: 1000,
+      });
+      const failure = new Error("listener failed");
+      const onError = vi.fn();
+      watcher.on("change", () => {
+        throw failure;
+      });
+      watcher.on("error", onError);
+
+      await watcher.start();
+      await vi.advanceTimersByTimeAsync(2000);
+      watcher.stop();
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(failure);
+      expect(watcher.config?.get("database.host")).toBe("c");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should schedule a single timer for overlapping starts", async () => {
+    vi.useFakeTimers();
+    try {
+      mockFetch.mockImplementation(() =>
+        Promise.resolve(okResponse(buildResponse({ "database.host": "a" }, { version: "v1" })))
+      );
+
+      const watcher = createClient({ endpoint: "http://localhost:8000", application: "my-app" }).watch({
+        interval: 1000,
+      });
+      const [first, second] = await Promise.all([watcher.start(), watcher.start()]);
+      await vi.advanceTimersByTimeAsync(1000);
+      watcher.stop();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(second).toBe(first);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("RefreshListener", () => {
+  const mockResponse: ConfigResponse = {
+    name: "my-app",
+    profiles: ["dev"],
+    label: "main",
+    version: "abc123",
+    state: null,
+    propertySources: [],
+  };
+
+  const createListener = () => {
+    const watcher = createClient({
+      endpoint: "http://localhost:8000",
+      application: ["common", "my-app"],
+      profiles: ["dev"],
+    }).watch();
+    return { watcher, listener: new RefreshListener(watcher) };
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() => Promise.resolve(okResponse(mockResponse)));
+  });
+
+  it("should match bus destinations against applications and profiles", () => {
+    const { listener } = createListener();
+
+    expect(listener.matches("**")).toBe(true);
+    expect(listener.matches("my-app")).toBe(true);
+    expect(listener.matches("my-app:**")).toBe(true);
+    expect(listener.matches("common:dev")).toBe(true);
+    expect(listener.matches("my-*:dev:**")).toBe(true);
+    expect(listener.matches("my-app:prod")).toBe(false);
+    expect(listener.matches("other-app:**")).toBe(false);
+  });
+
+  it("should refresh on matching RefreshRemoteApplicationEvent", async () => {
+    const { watcher, listener } = createListener();
+    const spy = vi.spyOn(watcher, "refresh");
+
+    await expect(
+      listener.handle({ type: "RefreshRemoteApplicationEvent", destinationService: "my-app:**" })
+    ).resolves.toBe(true);
+    await expect(listener.handle({ type: "RefreshRemoteApplicationEvent", destinationService: "other:**" })).resolves.toBe(
+      false
+    );
+    await expect(listener.handle({ type: "AckRemoteApplicationEvent", destinationService: "**" })).resolves.toBe(false);
+
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refresh on matching /monitor payloads", async () => {
+    const { listener } = createListener();
+
+    await expect(listener.handle({ path: "my-app-dev.yml" })).resolves.toBe(true);
+    await expect(listener.handle("path=application.yml")).resolves.toBe(true);
+    await expect(listener.handle({ commits: [{ modified: ["config/common-dev.properties"] }] })).resolves.toBe(true);
+    await expect(listener.handle(JSON.stringify({ path: "other-prod.yml" }))).resolves.toBe(false);
+  });
+
+  it("should run one more reload for notifications arriving during a reload", async () => {
+    const { listener } = createListener();
+
+    await Promise.all([
+      listener.handle({ path: "my-app.yml" }),
+      listener.handle({ path: "common.yml" }),
+      listener.handle({ path: "my-app-dev.yml" }),
+    ]);
+
+    // the running reload plus one queued reload, one request per application each
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("should not miss a commit made while a reload was reading the old version", async () => {
+    const { watcher, listener } = createListener();
+    let version = 1;
+    let release = () => {};
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    mockFetch.mockImplementation(async () => {
+      const served = { ...mockResponse, version: `v${version}` };
+      if (version === 2) await gate;
+      return okResponse(served);
+    });
+    await watcher.start();
+
+    // the first reload has read version 2 when commit 3 is notified
+    version = 2;
+    const first = listener.handle({ path: "my-app.yml" });
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(4));
+    version = 3;
+    const second = listener.handle({ path: "my-app.yml" });
+    release();
+
+    await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+    expect(watcher.config?.version).toBe("v3");
+  });
+
+  it("should wait for a running load of the client before reloading", async () => {
+    const { watcher, listener } = createListener();
+    const spy = vi.spyOn(watcher, "refresh");
+    await watcher.start();
+
+    const polling = watcher.refresh();
+    await listener.handle({ path: "my-app.yml" });
+    await polling;
+
+    // the notification joined the running load and then reloaded once more
+    expect(spy).toHaveBeenCalledTimes(3);
+    expect(mockFetch).toHaveBeenCalledTimes(6);
+  });
+
+  it.each(["null", "42", '"text"'])("should ignore raw bodies that are not objects (%s)", async (body) => {
+    const { listener } = createListener();
+
+    await expect(listener.handle(body)).resolves.toBe(false);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createClient } from "../src";
+import { buildResponse, errorResponse, mockFetch, okResponse } from "./fixtures";
+
+const notModified = () => errorResponse(304, "Not Modified");
+const headersOf = (call: number) => mockFetch.mock.calls[call][1].headers as Record<string, string>;
+const options = { endpoint: "http://localhost:8000", application: "my-app" };
+
+describe("Conditional requests", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should send If-None-Match and reuse the previous Config on 304", async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(buildResponse({ a: 1 }, { version: "v1" }), { ETag: '"etag-1"' }))
+      .mockResolvedValueOnce(notModified());
+    const metrics = { increment: vi.fn(), observe: vi.fn() };
+
+    const client = createClient({ ...options, metrics });
+    const first = await client.load();
+    const second = await client.load();
+
+    expect(headersOf(0)["If-None-Match"]).toBeUndefined();
+    expect(headersOf(1)["If-None-Match"]).toBe('"etag-1"');
+    expect(second).toBe(first);
+    expect(client.stats).toEqual({ loads: 2, deduplicated: 0, notModified: 1, unchanged: 0, misses: 1, reused: 1 });
+    expect(metrics.increment).toHaveBeenCalledWith("config_client.responses", 1, { result: "not_modified" });
+  });
+
+  it("should short-circuit responses with an unchanged version", async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(buildResponse({ a: 1 }, { version: "v1" })))
+      .mockResolvedValueOnce(okResponse(buildResponse({ a: 1 }, { version: "v1" })))
+      .mockResolvedValueOnce(okResponse(buildResponse({ a: 2 }, { version: "v2" })));
+
+    const client = createClient(options);
+    const first = await client.load();
+    const second = await client.load();
+    const third = await client.load();
+
+    expect(second).toBe(first);
+    expect(third).not.toBe(first);
+    expect(third.get("a")).toBe(2);
+    expect(client.stats).toMatchObject({ unchanged: 1, misses: 2, reused: 1 });
+  });
+
+  it("should always rebuild configs without a version", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(okResponse(buildResponse({ a: 1 }, { version: null }))));
+
+    const client = createClient(options);
+    const first = await client.load();
+
+    expect(await client.load()).not.toBe(first);
+    expect(client.stats).toMatchObject({ unchanged: 0, misses: 2, reused: 0 });
+  });
+
+  it("should deduplicate concurrent loads into one request", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(okResponse(buildResponse({ a: 1 }, { version: "v1" }))));
+
+    const client = createClient(options);
+    const [first, second] = await Promise.all([client.load(), client.load()]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(client.stats).toMatchObject({ loads: 1, deduplicated: 1 });
+
+    await client.load();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not send conditional headers when disabled", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve(okResponse(buildResponse({ a: 1 }, { version: "v1" }), { ETag: '"etag-1"' }))
+    );
+
+    const client = createClient({ ...options, conditional: false });
+    const first = await client.load();
+    const second = await client.load();
+
+    expect(headersOf(1)["If-None-Match"]).toBeUndefined();
+    expect(second).not.toBe(first);
+    expect(client.stats).toMatchObject({ notModified: 0, unchanged: 0, reused: 0 });
+  });
+});
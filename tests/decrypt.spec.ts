@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { constants, createCipheriv, generateKeyPairSync, pbkdf2Sync, publicEncrypt, randomBytes } from "node:crypto";
+import { createClient, CipherDecryptor, Config, ConfigDecryptionError } from "../src";
+import type { DecryptionOptions } from "../src";
+import { buildResponse, mockFetch, okResponse } from "./fixtures";
+
+// Spring Encryptors.text(key, "deadbeef") equivalent
+const encryptText = (password: string, text: string) => {
+  const key = pbkdf2Sync(password, Buffer.from("deadbeef", "hex"), 1024, 32, "sha1");
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-256-cbc", key, iv);
+  return Buffer.concat([iv, cipher.update(text, "utf8"), cipher.final()]).toString("hex");
+};
+
+// spring-security-rsa RsaSecretEncryptor (OAEP) equivalent
+const encryptRsa = (publicKey: string, text: string) => {
+  const secret = randomBytes(16);
+  const encryptedSecret = publicEncrypt({ key: publicKey, padding: constants.RSA_PKCS1_OAEP_PADDING }, secret);
+  const key = pbkdf2Sync(secret.toString("hex"), Buffer.from("deadbeef", "hex"), 1024, 32, "sha1");
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-256-cbc", key, iv);
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(encryptedSecret.length);
+  return Buffer.concat([length, encryptedSecret, iv, cipher.update(text, "utf8"), cipher.final()]).toString("base64");
+};
+
+describe("CipherDecryptor", () => {
+  it("should decrypt symmetric {cipher} values", () => {
+    const decryptor = new CipherDecryptor({ key: "my-secret-key" });
+
+    expect(decryptor.decrypt(`{cipher}${encryptText("my-secret-key", "p@ssw0rd")}`)).toBe("p@ssw0rd");
+  });
+
+  it("should select keys with the {key:name} prefix", () => {
+    const decryptor = new CipherDecryptor({ key: "default-key", keys: { prod: "prod-key" } });
+
+    expect(decryptor.decrypt(`{key:prod}${encryptText("prod-key", "prod-value")}`)).toBe("prod-value");
+    expect(() => decryptor.decrypt(`{key:unknown}${encryptText("prod-key", "x")}`)).toThrow(ConfigDecryptionError);
+  });
+
+  it("should decrypt RSA {cipher} values", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: "spki", format: "pem" },
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    });
+    const decryptor = new CipherDecryptor({ key: { privateKey, algorithm: "OAEP" } });
+
+    expect(decryptor.decrypt(encryptRsa(publicKey, "rsa-secret"))).toBe("rsa-secret");
+  });
+
+  it("should reject RSA PKCS#1 v1.5 keys up front", () => {
+    const { privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+
+    // decryption options read from a JSON file are not checked by the compiler
+    const fromJson = (json: object): DecryptionOptions => JSON.parse(JSON.stringify(json));
+
+    expect(() => new CipherDecryptor(fromJson({ key: { privateKey } }))).toThrow(/PKCS#1 v1\.5/);
+    expect(() => new CipherDecryptor(fromJson({ keys: { legacy: { privateKey, algorithm: "DEFAULT" } } }))).toThrow(
+      ConfigDecryptionError
+    );
+  });
+
+  it("should decrypt a fixed Encryptors.text value", () => {
+    // produced independently with OpenSSL (aes-256-cbc, PBKDF2-HMAC-SHA1 key, iv 00..0f)
+    const value = "{cipher}000102030405060708090a0b0c0d0e0f3b6ee3a42b8d491f650834457265ffb8";
+
+    expect(new CipherDecryptor({ key: "my-secret-key" }).decrypt(value)).toBe("p@ssw0rd");
+  });
+});
+
+describe("Config decryption", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should decrypt values and collect failures per key", () => {
+    const config = new Config(
+      buildResponse({
+        "database.password": `{cipher}${encryptText("my-secret-key", "p@ssw0rd")}`,
+        "api.token": `{cipher}${encryptText("other-key", "token")}`,
+        "database.host": "localhost",
+      }),
+      { decryptor: new CipherDecryptor({ key: "my-secret-key" }) }
+    );
+
+    expect(config.get("database.password")).toBe("p@ssw0rd");
+    expect(config.get("database.host")).toBe("localhost");
+    expect(config.has("api.token")).toBe(false);
+    expect(config.decryptionErrors["api.token"]).toBeInstanceOf(ConfigDecryptionError);
+    expect(config.toString()).not.toContain("p@ssw0rd");
+    expect(JSON.stringify(config.raw)).not.toContain("p@ssw0rd");
+  });
+
+  it("should fail the load when failOnError is set", async () => {
+    mockFetch.mockResolvedValueOnce(
+      okResponse(buildResponse({ "api.token": `{cipher}${encryptText("other-key", "token")}` }))
+    );
+
+    const client = createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      decryption: { key: "my-secret-key", failOnError: true },
+    });
+
+    await expect(client.load()).rejects.toThrow(ConfigDecryptionError);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createClient, ConfigUnauthorizedError } from "../src";
+import { jsonResponse, mockFetch } from "./fixtures";
+
+const options = { endpoint: "http://localhost:8000", application: "my-app" };
+
+describe("Diagnostics", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should parse health status and components", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse(
+        {
+          status: "DOWN",
+          components: {
+            configServer: { status: "DOWN", details: { error: "git clone failed" } },
+            diskSpace: { status: "UP", details: { free: 1024 } },
+          },
+        },
+        { status: 503 }
+      )
+    );
+
+    const health = await createClient(options).health();
+
+    expect(health).toMatchObject({
+      status: "DOWN",
+      up: false,
+      endpoint: "http://localhost:8000",
+      statusCode: 503,
+      components: {
+        configServer: { status: "DOWN", details: { error: "git clone failed" } },
+        diskSpace: { status: "UP", details: { free: 1024 } },
+      },
+    });
+    expect(mockFetch.mock.calls[0][0]).toBe("http://localhost:8000/actuator/health");
+  });
+
+  it("should read Spring Boot 1.x style details as components", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ status: "UP", details: { git: { status: "UP" } } }));
+
+    const health = await createClient(options).health();
+
+    expect(health.up).toBe(true);
+    expect(health.components).toEqual({ git: { status: "UP" } });
+  });
+
+  it("should probe once with its own timeout and never throw", async () => {
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+    const client = createClient({ ...options, retry: { maxRetries: 5, retryDelay: 10000 } });
+    const health = await client.health({ timeout: 100 });
+
+    expect(health).toMatchObject({ status: "DOWN", up: false, error: "fetch failed" });
+    expect(await client.healthCheck()).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should query info and environment endpoints", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ build: { version: "4.1.0" } }))
+      .mockResolvedValueOnce(jsonResponse({ activeProfiles: ["git"], propertySources: [] }));
+
+    const client = createClient(options);
+
+    expect(await client.info()).toEqual({ build: { version: "4.1.0" } });
+    expect(await client.environment({ endpoint: "http://other:8888" })).toEqual({
+      activeProfiles: ["git"],
+      propertySources: [],
+    });
+    expect(mockFetch.mock.calls[1][0]).toBe("http://other:8888/actuator/env");
+  });
+
+  it("should throw typed errors for failed actuator requests", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 401 }));
+
+    await expect(createClient(options).info()).rejects.toThrow(ConfigUnauthorizedError);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Config, createClient, diffConfig } from "../src";
+import { buildResponse, mockFetch, okResponse } from "./fixtures";
+
+const withSources = (version: string, sources: Record<string, Record<string, unknown>>) =>
+  buildResponse({}, { version, propertySources: Object.entries(sources).map(([name, source]) => ({ name, source })) });
+
+const before = withSources("v1", {
+  "my-app.yml": { "database.host": "old-host", "database.password": "old-secret", "feature.x": true },
+  "application.yml": { "server.port": 8080 },
+});
+const after = withSources("v2", {
+  "my-app.yml": { "database.host": "new-host", "database.password": "new-secret", "database.pool": 10 },
+  "shared.yml": { "server.port": 9090 },
+  "application.yml": { "server.port": 8080 },
+});
+
+describe("diffConfig", () => {
+  it("should report added, removed and changed keys with masked values", () => {
+    const diff = diffConfig(new Config(before), new Config(after));
+
+    expect(diff).toEqual({
+      fromVersion: "v1",
+      toVersion: "v2",
+      added: [{ key: "database.pool", type: "added", newValue: 10 }],
+      removed: [{ key: "feature.x", type: "removed", oldValue: true }],
+      changed: [
+        { key: "database.host", type: "changed", oldValue: "old-host", newValue: "new-host" },
+        { key: "database.password", type: "changed", oldValue: "******", newValue: "******" },
+        { key: "server.port", type: "changed", oldValue: 8080, newValue: 9090 },
+      ],
+    });
+  });
+
+  it("should show raw values when sanitizing is disabled", () => {
+    const diff = diffConfig(before, after, { sanitize: false });
+
+    expect(diff.changed).toContainEqual({
+      key: "database.password",
+      type: "changed",
+      oldValue: "old-secret",
+      newValue: "new-secret",
+    });
+  });
+
+  it("should report nothing for identical configurations", () => {
+    const diff = diffConfig(before, before);
+
+    expect([...diff.added, ...diff.removed, ...diff.changed]).toEqual([]);
+    expect(diff.sources).toBeUndefined();
+  });
+
+  it("should report per property source differences", () => {
+    const { sources } = diffConfig(before, after, { sources: true, sensitiveKeys: ["host"] });
+
+    expect(sources).toEqual([
+      {
+        source: "my-app.yml",
+        type: "changed",
+        changes: [
+          { key: "database.host", type: "changed", oldValue: "******", newValue: "******" },
+          { key: "database.password", type: "changed", oldValue: "old-secret", newValue: "new-secret" },
+          { key: "database.pool", type: "added", newValue: 10 },
+          { key: "feature.x", type: "removed", oldValue: true },
+        ],
+      },
+      { source: "shared.yml", type: "added", changes: [{ key: "server.port", type: "added", newValue: 9090 }] },
+    ]);
+  });
+});
+
+describe("ConfigClient.diff", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should load and compare two labels", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(okResponse(url.endsWith("/release") ? after : before))
+    );
+
+    const client = createClient({ endpoint: "http://localhost:8000", application: "my-app", profiles: ["dev"] });
+    const diff = await client.diff({ label: "main" }, { label: "release" });
+
+    expect(mockFetch.mock.calls.map(([url]) => url).sort()).toEqual([
+      "http://localhost:8000/my-app/dev/main",
+      "http://localhost:8000/my-app/dev/release",
+    ]);
+    expect(diff.fromVersion).toBe("v1");
+    expect(diff.toVersion).toBe("v2");
+    expect(diff.added.map((change) => change.key)).toEqual(["database.pool"]);
+  });
+
+  it("should compare profile sets with the client's sensitive keys", async () => {
+    mockFetch.mockImplementation((url: string) => Promise.resolve(okResponse(url.includes("/prod/") ? after : before)));
+
+    const client = createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      sensitiveKeys: ["host"],
+    });
+    const diff = await client.diff({}, { profiles: ["prod"] });
+
+    expect(mockFetch.mock.calls.map(([url]) => url)).toContain("http://localhost:8000/my-app/prod/main");
+    expect(diff.changed[0]).toEqual({ key: "database.host", type: "changed", oldValue: "******", newValue: "******" });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createClient, ConfigClientError } from "../src";
+import { errorResponse, hangingResponse, jsonResponse, mockFetch, okResponse } from "./fixtures";
+
+const urlOf = (call: number) => mockFetch.mock.calls[call][0] as string;
+
+describe("Endpoint failover", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should fail over to the next endpoint without waiting for backoff", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED")).mockResolvedValueOnce(okResponse());
+
+    const client = createClient({
+      endpoint: "http://config-a:8888, http://config-b:8888/",
+      application: "my-app",
+      retry: { maxRetries: 0 },
+    });
+    await client.load();
+
+    expect(urlOf(0)).toBe("http://config-a:8888/my-app/default/main");
+    expect(urlOf(1)).toBe("http://config-b:8888/my-app/default/main");
+    expect(client.toString()).toContain("endpoint=http://config-a:8888, http://config-b:8888");
+  });
+
+  it("should skip an unhealthy endpoint until its cooldown passes and a probe succeeds", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const client = createClient({
+        endpoint: ["http://config-a:8888", "http://config-b:8888"],
+        application: "my-app",
+        failover: { unhealthyTimeout: 1000 },
+      });
+
+      mockFetch.mockResolvedValueOnce(errorResponse(503, "Unavailable"));
+      mockFetch.mockResolvedValueOnce(okResponse());
+      await client.load();
+
+      // config-a is cooling down: config-b is tried first
+      mockFetch.mockResolvedValueOnce(okResponse());
+      await client.load();
+      expect(urlOf(2)).toBe("http://config-b:8888/my-app/default/main");
+
+      // after the cooldown config-a is probed in the background and used again once it answers
+      vi.advanceTimersByTime(1000);
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(url.endsWith("/actuator/health") ? jsonResponse({ status: "UP" }) : okResponse())
+      );
+      await client.load();
+      expect(mockFetch.mock.calls.slice(3).map(([url]) => url)).toEqual([
+        "http://config-a:8888/actuator/health",
+        "http://config-b:8888/my-app/default/main",
+      ]);
+
+      await client.load();
+      expect(urlOf(5)).toBe("http://config-a:8888/my-app/default/main");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should not delay requests for probes and renew the cooldown of failed probes", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const client = createClient({
+        endpoint: ["http://config-a:8888", "http://config-b:8888"],
+        application: "my-app",
+        failover: { unhealthyTimeout: 1000 },
+      });
+      const probes = () =>
+        mockFetch.mock.calls.filter(([url]) => url === "http://config-a:8888/actuator/health").length;
+
+      mockFetch.mockResolvedValueOnce(errorResponse(503, "Unavailable"));
+      mockFetch.mockResolvedValueOnce(okResponse());
+      await client.load();
+      vi.advanceTimersByTime(1000);
+
+      // config-a never answers: its probe hangs until the diagnostics timeout aborts it
+      mockFetch.mockImplementation((url: string, init: RequestInit) =>
+        url === "http://config-a:8888/actuator/health" ? hangingResponse(init) : Promise.resolve(okResponse())
+      );
+      await client.load();
+      expect(probes()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await client.load();
+      expect(probes()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await client.load();
+      expect(probes()).toBe(2);
+
+      // diagnostics neither probe nor pick the cooling down endpoint
+      await client.health();
+      expect(probes()).toBe(2);
+      expect(urlOf(mockFetch.mock.calls.length - 1)).toBe("http://config-b:8888/actuator/health");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should probe in parallel when every endpoint is unhealthy", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const client = createClient({
+        endpoint: ["http://config-a:8888", "http://config-b:8888", "http://config-c:8888"],
+        application: "my-app",
+        timeout: 10000,
+        retry: { maxRetries: 0 },
+        failover: { unhealthyTimeout: 1000 },
+      });
+
+      mockFetch.mockImplementation(() => Promise.resolve(errorResponse(503, "Unavailable")));
+      await expect(client.load()).rejects.toThrow(ConfigClientError);
+      vi.advanceTimersByTime(1000);
+
+      // probes of config-a and config-b hang until aborted by the diagnostics timeout, config-c recovered
+      mockFetch.mockImplementation((url: string, init: RequestInit) =>
+        url.startsWith("http://config-c") || !url.endsWith("/actuator/health")
+          ? Promise.resolve(url.endsWith("/actuator/health") ? jsonResponse({ status: "UP" }) : okResponse())
+          : hangingResponse(init)
+      );
+      const loaded = client.load();
+      await vi.advanceTimersByTimeAsync(2000);
+      await loaded;
+
+      expect(mockFetch.mock.calls.slice(3).map(([url]) => url)).toEqual([
+        "http://config-a:8888/actuator/health",
+        "http://config-b:8888/actuator/health",
+        "http://config-c:8888/actuator/health",
+        "http://config-c:8888/my-app/default/main",
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should rotate the first endpoint with the round-robin strategy", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(okResponse()));
+
+    const client = createClient({
+      endpoint: ["http://config-a:8888", "http://config-b:8888"],
+      application: "my-app",
+      failover: { strategy: "round-robin" },
+    });
+    await client.load();
+    await client.load();
+    await client.load();
+
+    expect([urlOf(0), urlOf(1), urlOf(2)].map((url) => new URL(url).host)).toEqual([
+      "config-a:8888",
+      "config-b:8888",
+      "config-a:8888",
+    ]);
+  });
+
+  it("should not fail over on client errors", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(errorResponse(404, "Not Found")));
+
+    const client = createClient({
+      endpoint: ["http://config-a:8888", "http://config-b:8888"],
+      application: "my-app",
+      retry: { maxRetries: 0 },
+    });
+
+    await expect(client.load()).rejects.toThrow(ConfigClientError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should list every tried endpoint and its failure", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED")).mockResolvedValueOnce(errorResponse(502, "Bad Gateway"));
+
+    const client = createClient({
+      endpoint: ["http://config-a:8888", "http://config-b:8888"],
+      application: "my-app",
+      retry: { maxRetries: 0 },
+    });
+    const error = (await client.load().catch((e) => e)) as ConfigClientError;
+
+    expect(error).toBeInstanceOf(ConfigClientError);
+    expect(error.message).toContain("http://config-a:8888 (ECONNREFUSED)");
+    expect(error.message).toContain("http://config-b:8888 (Config server returned 502: Bad Gateway)");
+    expect(error.failures).toEqual([
+      { endpoint: "http://config-a:8888", attempt: 0, message: "ECONNREFUSED", statusCode: undefined },
+      {
+        endpoint: "http://config-b:8888",
+        attempt: 0,
+        message: "Config server returned 502: Bad Gateway",
+        statusCode: 502,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { vi } from "vitest";
+import type { ConfigResponse } from "../src";
+
+/**
+ * fetch mock of the importing spec file (vitest isolates modules per file)
+ */
+export const mockFetch = vi.fn();
+globalThis.fetch = mockFetch;
+
+/**
+ * Config Server environment response with a single property source
+ */
+export function buildResponse(
+  source: Record<string, unknown> = {},
+  overrides: Partial<ConfigResponse> = {}
+): ConfigResponse {
+  return {
+    name: "my-app",
+    profiles: ["default"],
+    label: "main",
+    version: "abc123",
+    state: null,
+    propertySources: [{ name: "my-app.yml", source }],
+    ...overrides,
+  };
+}
+
+/**
+ * JSON response (a Response body can only be read once: build one per request)
+ */
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    ...init,
+    headers: { "Content-Type": "application/json", ...init.headers },
+  });
+}
+
+/**
+ * Successful environment response
+ */
+export function okResponse(response: ConfigResponse = buildResponse(), headers: Record<string, string> = {}): Response {
+  return jsonResponse(response, { headers });
+}
+
+/**
+ * Error status response without a body
+ */
+export function errorResponse(status: number, statusText = "", headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, statusText, headers });
+}
+
+/**
+ * Pending fetch that only rejects when its request is aborted (unreachable server)
+ */
+export function hangingResponse(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => init.signal?.addEventListener("abort", () => reject(new Error("aborted"))));
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { ConfigClientError } from "../src";
+import { parseProperties, parseYaml, stringifyDotenv, stringifyProperties, stringifyYaml } from "../src/formats";
+
+describe("parseYaml", () => {
+  it("should parse nested mappings, sequences and scalars", () => {
+    const [document] = parseYaml(`
+# comment
+server:
+  port: 8080 # inline comment
+  enabled: true
+  ratio: 0.5
+  name: "my app"
+  quoted: 'it''s'
+  empty:
+servers:
+  - host: a
+    port: 1
+  - host: b
+tags: [x, "y z", 3]
+limits: { cpu: 2, memory: 512Mi }
+plain:
+- one
+- two
+url: http://example.com:8080/path#anchor
+password: '{cipher}abc'
+`);
+
+    expect(document).toEqual({
+      server: { port: 8080, enabled: true, ratio: 0.5, name: "my app", quoted: "it's", empty: null },
+      servers: [{ host: "a", port: 1 }, { host: "b" }],
+      tags: ["x", "y z", 3],
+      limits: { cpu: 2, memory: "512Mi" },
+      plain: ["one", "two"],
+      url: "http://example.com:8080/path#anchor",
+      password: "{cipher}abc",
+    });
+  });
+
+  it("should parse block scalars", () => {
+    const [document] = parseYaml(`
+literal: |
+  line 1
+  line 2
+folded: >-
+  a
+  b
+next: value
+`);
+
+    expect(document).toEqual({ literal: "line 1\nline 2\n", folded: "a b", next: "value" });
+  });
+
+  it("should split multiple documents", () => {
+    const documents = parseYaml(`a: 1
+---
+spring:
+  config:
+    activate:
+      on-profile: dev
+a: 2
+`);
+
+    expect(documents).toEqual([{ a: 1 }, { spring: { config: { activate: { "on-profile": "dev" } } }, a: 2 }]);
+  });
+
+  it.each(["key: [a}\n", "key: {a: [}\n", "key: [a, b\n", "key: {a: 1\n"])(
+    "should reject malformed flow collections (%j)",
+    (text) => {
+      expect(() => parseYaml(text)).toThrow(ConfigClientError);
+    }
+  );
+
+  it("should keep plain scalars that only start with a bracket", () => {
+    expect(parseYaml("password: {cipher}abc\n")).toEqual([{ password: "{cipher}abc" }]);
+  });
+});
+
+describe("parseProperties", () => {
+  it("should parse separators, comments, continuations and escapes", () => {
+    expect(
+      parseProperties(`# comment
+! also comment
+database.host=localhost
+database.port: 5432
+app.name   My Application
+multi.line=first, \\
+    second
+escaped\\=key=tab\\tvalue
+unicode=\\u00e9
+empty=
+`)
+    ).toEqual({
+      "database.host": "localhost",
+      "database.port": "5432",
+      "app.name": "My Application",
+      "multi.line": "first, second",
+      "escaped=key": "tab\tvalue",
+      unicode: "é",
+      empty: "",
+    });
+  });
+});
+
+describe("stringifyYaml / stringifyProperties / stringifyDotenv", () => {
+  it("should write YAML that parses back to the same value", () => {
+    const value = {
+      server: { port: 8080, enabled: true, ratio: 0.5, name: "my app" },
+      servers: [{ host: "a", port: 1 }, { host: "b" }],
+      matrix: [
+        [1, 2],
+        [3, 4],
+      ],
+      tricky: ["true", "123", "", " padded ", "a: b", "x #y", "- dash", "line\nbreak", "{cipher}abc"],
+      "[some.key]": "bracketed",
+      empty: {},
+      none: [],
+      missing: null,
+    };
+
+    expect(parseYaml(stringifyYaml(value))).toEqual([value]);
+  });
+
+  it("should write properties that parse back to the same values", () => {
+    const properties = {
+      "database.host": "localhost",
+      "key with=separators:": "value",
+      "leading.space": " padded",
+      multi: "line\nbreak\ttab\\slash",
+      unicode: "é",
+    };
+
+    expect(parseProperties(stringifyProperties(properties))).toEqual(properties);
+  });
+
+  it("should write dotenv lines with environment variable names", () => {
+    const properties = {
+      "database.host": "localhost",
+      "servers[0].max-pool-size": 10,
+      greeting: "hello world",
+      quoted: 'say "hi" for $5',
+      empty: null,
+    };
+
+    expect(stringifyDotenv(properties)).toBe(
+      [
+        "DATABASE_HOST=localhost",
+        "SERVERS_0_MAXPOOLSIZE=10",
+        'GREETING="hello world"',
+        'QUOTED="say \\"hi\\" for \\$5"',
+        "EMPTY=",
+        "",
+      ].join("\n")
+    );
+  });
+});
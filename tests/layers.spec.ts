@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient, ConfigClientError } from "../src";
+import { buildResponse, mockFetch, okResponse } from "./fixtures";
+
+const mockResponse = buildResponse(
+  {},
+  {
+    profiles: ["dev"],
+    propertySources: [
+      {
+        name: "file:my-app-dev.yml",
+        source: {
+          "database.host": "server-host",
+          "database.max-pool-size": 10,
+          "app.name": "My Application",
+        },
+      },
+    ],
+  }
+);
+
+describe("Local property layers", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() => Promise.resolve(okResponse(mockResponse)));
+    directory = await mkdtemp(join(tmpdir(), "config-client-layers-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should map prefixed env variables onto server keys", async () => {
+    const config = await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      layers: [
+        {
+          type: "env",
+          prefix: "MYAPP_",
+          env: { MYAPP_DATABASE_MAXPOOLSIZE: "50", MYAPP_SERVERS_0_HOST: "a", PATH: "/usr/bin" },
+        },
+      ],
+    }).load();
+
+    expect(config.get("database.max-pool-size")).toBe("50");
+    expect(config.get("servers[0].host")).toBe("a");
+    expect(config.has("path")).toBe(false);
+    expect(config.raw.propertySources[0]).toEqual({
+      name: "systemEnvironment",
+      source: { "database.max-pool-size": "50", "servers[0].host": "a" },
+    });
+  });
+
+  it("should apply file and programmatic layers by position", async () => {
+    const yamlPath = join(directory, "local.yml");
+    const propertiesPath = join(directory, "defaults.properties");
+    await writeFile(yamlPath, "database:\n  host: file-host\n");
+    await writeFile(propertiesPath, "app.name=Default Name\napp.locale=ko\n");
+
+    const config = await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      layers: [
+        { type: "properties", properties: { database: { host: "programmatic-host" } } },
+        { type: "file", path: yamlPath },
+        { type: "file", path: propertiesPath, position: "fallback" },
+      ],
+    }).load();
+
+    expect(config.get("database.host")).toBe("programmatic-host");
+    expect(config.get("app.name")).toBe("My Application");
+    expect(config.get("app.locale")).toBe("ko");
+    expect(config.raw.propertySources.map((ps) => ps.name)).toEqual([
+      "overrides",
+      `file:${yamlPath}`,
+      "file:my-app-dev.yml",
+      `file:${propertiesPath}`,
+    ]);
+  });
+
+  it("should fail on a missing file unless optional", async () => {
+    const path = join(directory, "missing.json");
+    const options = { endpoint: "http://localhost:8000", application: "my-app" };
+
+    await expect(createClient({ ...options, layers: [{ type: "file", path }] }).load()).rejects.toThrow(
+      ConfigClientError
+    );
+    await expect(
+      createClient({ ...options, layers: [{ type: "file", path, optional: true }] }).load()
+    ).resolves.toBeDefined();
+  });
+});
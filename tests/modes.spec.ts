@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createClient,
+  ConfigClientError,
+  ConfigInvalidResponseError,
+  ConfigNetworkError,
+  ConfigNotFoundError,
+  ConfigTimeoutError,
+  ConfigUnauthorizedError,
+} from "../src";
+import { buildResponse, errorResponse, hangingResponse, jsonResponse, mockFetch, okResponse } from "./fixtures";
+
+const appResponse = (name: string, source: Record<string, unknown>) =>
+  buildResponse(source, { name, propertySources: [{ name: `${name}.yml`, source }] });
+const options = { endpoint: "http://localhost:8000", application: "my-app", retry: { maxRetries: 0 } };
+
+describe("Error taxonomy", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it.each([
+    [404, ConfigNotFoundError],
+    [401, ConfigUnauthorizedError],
+    [403, ConfigUnauthorizedError],
+  ])("should throw a typed error for status %i", async (status, ErrorClass) => {
+    mockFetch.mockResolvedValue(errorResponse(status, "Error"));
+
+    const error = await createClient(options)
+      .load()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(ConfigClientError);
+    expect(error.statusCode).toBe(status);
+  });
+
+  it("should distinguish network errors from timeouts", async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+    await expect(createClient(options).load()).rejects.toThrow(ConfigNetworkError);
+
+    mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => hangingResponse(init));
+    await expect(createClient({ ...options, timeout: 10 }).load()).rejects.toThrow(ConfigTimeoutError);
+  });
+
+  it("should reject malformed responses", async () => {
+    mockFetch.mockResolvedValueOnce(new Response("not json", { status: 200 }));
+    await expect(createClient(options).load()).rejects.toThrow(ConfigInvalidResponseError);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ name: "my-app" }));
+    await expect(createClient(options).load()).rejects.toThrow(ConfigInvalidResponseError);
+  });
+});
+
+describe("Startup modes", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should fail the whole load in fail-fast mode", async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(appResponse("shared", { a: 1 })))
+      .mockResolvedValueOnce(errorResponse(404, "Not Found"));
+
+    await expect(createClient({ ...options, application: ["shared", "my-app"] }).load()).rejects.toThrow(
+      ConfigNotFoundError
+    );
+  });
+
+  it("should skip failed applications in optional mode", async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(appResponse("shared", { a: 1 })))
+      .mockResolvedValueOnce(errorResponse(404, "Not Found"));
+
+    const config = await createClient({ ...options, application: ["shared", "my-app"], mode: "optional" }).load();
+
+    expect(config.get("a")).toBe(1);
+    expect(Object.keys(config.loadErrors)).toEqual(["my-app"]);
+    expect(config.loadErrors["my-app"]).toBeInstanceOf(ConfigNotFoundError);
+  });
+
+  it("should start with layer defaults when the server is unreachable in optional mode", async () => {
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+    const config = await createClient({
+      ...options,
+      mode: "optional",
+      layers: [{ type: "properties", properties: { server: { port: 8080 } }, position: "fallback" }],
+    }).load();
+
+    expect(config.get("server.port")).toBe(8080);
+    expect(config.loadErrors["my-app"]).toBeInstanceOf(ConfigNetworkError);
+  });
+
+  it("should keep the last full config when a watcher refresh is partial", async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(appResponse("shared", { a: 1 })))
+      .mockResolvedValueOnce(okResponse(appResponse("my-app", { b: 2 })))
+      .mockResolvedValueOnce(okResponse(appResponse("shared", { a: 1 })))
+      .mockRejectedValueOnce(new TypeError("fetch failed"));
+
+    const watcher = createClient({ ...options, application: ["shared", "my-app"], mode: "optional" }).watch();
+    const onError = vi.fn();
+    watcher.on("error", onError);
+
+    const initial = await watcher.start();
+    const config = await watcher.refresh();
+    watcher.stop();
+
+    expect(config).toBe(initial);
+    expect(onError).toHaveBeenCalledWith(expect.any(ConfigNetworkError));
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient, ConfigClientError, MemoryConfigCache } from "../src";
+import { mockFetch } from "./fixtures";
+
+const options = { endpoint: "http://localhost:8000", application: "my-app", profiles: ["dev"], label: "main" };
+const headersOf = (call: number) => mockFetch.mock.calls[call][1].headers as Record<string, string>;
+
+describe("Resource files", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    mockFetch.mockReset();
+    directory = await mkdtemp(join(tmpdir(), "config-client-resource-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should fetch plain-text resources by path", async () => {
+    mockFetch.mockResolvedValueOnce(new Response("server { listen 80; }"));
+
+    const client = createClient({ ...options, application: ["shared", "my-app"] });
+    const content = await client.getResource("/nginx/nginx conf.txt", { resolvePlaceholders: false });
+
+    expect(content).toBe("server { listen 80; }");
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "http://localhost:8000/shared,my-app/dev/main/nginx/nginx%20conf.txt?resolvePlaceholders=false"
+    );
+  });
+
+  it("should request binary resources as octet-stream", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(new Uint8Array([0, 1, 255])));
+
+    const content = await createClient(options).getResourceBuffer("certs/keystore.p12");
+
+    expect([...content]).toEqual([0, 1, 255]);
+    expect(headersOf(0).Accept).toBe("application/octet-stream");
+  });
+
+  it("should serve cached resources when the server is unreachable", async () => {
+    const store = new MemoryConfigCache();
+    const client = createClient({ ...options, cache: { store }, retry: { maxRetries: 0 } });
+
+    mockFetch.mockResolvedValueOnce(new Response("<configuration/>"));
+    await client.getResource("logback.xml");
+
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    await expect(client.getResource("logback.xml")).resolves.toBe("<configuration/>");
+
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    await expect(client.getResource("other.xml")).rejects.toThrow(ConfigClientError);
+  });
+
+  it("should stream resources to disk", async () => {
+    mockFetch.mockResolvedValueOnce(new Response("line\n".repeat(1000)));
+
+    const destination = join(directory, "big.txt");
+    await createClient(options).downloadResource("big.txt", destination);
+
+    expect(await readFile(destination, "utf8")).toBe("line\n".repeat(1000));
+    expect(await readdir(directory)).toEqual(["big.txt"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createClient, ConfigClientError, ConfigTimeoutError } from "../src";
+import { RetryPolicy } from "../src/retry";
+import { errorResponse, hangingResponse, mockFetch, okResponse } from "./fixtures";
+
+describe("Retry policy", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should fail immediately on non-retryable statuses and keep the status code", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(errorResponse(404)));
+
+    const error = (await createClient({ endpoint: "http://localhost:8000", application: "my-app" })
+      .load()
+      .catch((e) => e)) as ConfigClientError;
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(ConfigClientError);
+    expect(error.statusCode).toBe(404);
+    expect(error.message).toContain("after 1 attempt:");
+  });
+
+  it("should retry retryable statuses and report every attempt", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(errorResponse(503)));
+    const onRetry = vi.fn();
+
+    const error = (await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { maxRetries: 2, retryDelay: 1, onRetry },
+    })
+      .load()
+      .catch((e) => e)) as ConfigClientError;
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(error.statusCode).toBe(503);
+    expect(error.failures.map((failure) => failure.attempt)).toEqual([0, 1, 2]);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 1, statusCode: 503 }));
+  });
+
+  it("should not retry network errors when disabled", async () => {
+    mockFetch.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    const error = (await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { retryOnNetworkError: false },
+    })
+      .load()
+      .catch((e) => e)) as ConfigClientError;
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(error.statusCode).toBeUndefined();
+    expect(error.failures).toEqual([{ endpoint: "http://localhost:8000", attempt: 0, message: "ECONNREFUSED" }]);
+  });
+
+  it("should stop once the total deadline would be exceeded", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(errorResponse(503)));
+
+    await expect(
+      createClient({
+        endpoint: "http://localhost:8000",
+        application: "my-app",
+        retry: { maxRetries: 5, retryDelay: 1000, maxElapsedTime: 500 },
+      }).load()
+    ).rejects.toThrow(ConfigClientError);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should clamp request timeouts to the remaining maxElapsedTime", async () => {
+    vi.useFakeTimers();
+
+    try {
+      // every endpoint hangs until its request is aborted
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => hangingResponse(init));
+      const startedAt = Date.now();
+      const loaded = createClient({
+        endpoint: ["http://config-a:8888", "http://config-b:8888", "http://config-c:8888"],
+        application: "my-app",
+        timeout: 5000,
+        retry: { maxRetries: 5, maxElapsedTime: 3000 },
+      })
+        .load()
+        .catch((error: Error) => error);
+
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await loaded).toBeInstanceOf(ConfigTimeoutError);
+      expect(Date.now() - startedAt).toBe(3000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should honor Retry-After within the max delay", async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429, "Too Many Requests", { "Retry-After": "0" }))
+      .mockResolvedValueOnce(okResponse());
+    const onRetry = vi.fn();
+
+    await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { retryDelay: 1, onRetry },
+    }).load();
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delay: 1, statusCode: 429 }));
+
+    const policy = new RetryPolicy({ retryDelay: 100, maxDelay: 5000 });
+    expect(policy.retryAfter(errorResponse(429, "Too Many Requests", { "Retry-After": "3" }))).toBe(3000);
+    expect(policy.delay(0, 0, 3000)).toBe(3000);
+    expect(policy.delay(0, 0, 60000)).toBe(5000);
+  });
+
+  it("should cap and randomize delays", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(new RetryPolicy({ retryDelay: 1000, maxDelay: 5000 }).delay(10, 0)).toBe(5000);
+    expect(new RetryPolicy({ retryDelay: 1000, jitter: "full" }).delay(1, 0)).toBe(1000);
+    expect(new RetryPolicy({ retryDelay: 1000, jitter: "decorrelated" }).delay(1, 2000)).toBe(3500);
+  });
+});
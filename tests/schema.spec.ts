@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { Config, ConfigValidationError, fromJoi, fromZod } from "../src";
+import type { ConfigResponse } from "../src";
+
+const mockResponse: ConfigResponse = {
+  name: "my-app",
+  profiles: ["dev"],
+  label: "main",
+  version: "abc123",
+  state: null,
+  propertySources: [
+    {
+      name: "file:my-app-dev.properties",
+      source: {
+        "database.host": "dev-host",
+        "database.port": "5432",
+        "database.mode": "primary",
+        "feature.enabled": "true",
+      },
+    },
+    {
+      name: "file:my-app.yml",
+      source: {
+        "database.pool": 200,
+        "app.name": "My Application",
+      },
+    },
+  ],
+};
+
+describe("Config.bind", () => {
+  it("should bind a prefix to a typed object with coercion and defaults", () => {
+    const config = new Config(mockResponse);
+
+    const database = config.bind(
+      {
+        host: { type: "string", required: true },
+        port: { type: "number", required: true, min: 1, max: 65535 },
+        mode: { type: "string", enum: ["primary", "replica"] },
+        timeout: { type: "number", default: 30 },
+      },
+      "database"
+    );
+
+    expect(database).toEqual({ host: "dev-host", port: 5432, mode: "primary", timeout: 30 });
+  });
+
+  it("should bind nested schemas against the whole config", () => {
+    const config = new Config(mockResponse);
+
+    const bound = config.bind({
+      feature: { enabled: { type: "boolean", default: false } },
+      app: { name: { type: "string", required: true } },
+    });
+
+    expect(bound.feature.enabled).toBe(true);
+    expect(bound.app.name).toBe("My Application");
+  });
+
+  it("should aggregate every issue with its property source", () => {
+    const config = new Config(mockResponse);
+
+    let error: ConfigValidationError | undefined;
+    try {
+      config.bind(
+        {
+          host: { type: "number" },
+          pool: { type: "number", max: 100 },
+          mode: { type: "string", enum: ["replica"] },
+          user: { type: "string", required: true },
+        },
+        "database"
+      );
+    } catch (e) {
+      error = e as ConfigValidationError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error!.issues.map((issue) => issue.key)).toEqual([
+      "database.host",
+      "database.pool",
+      "database.mode",
+      "database.user",
+    ]);
+    expect(error!.issues[0].source).toBe("file:my-app-dev.properties");
+    expect(error!.issues[1].source).toBe("file:my-app.yml");
+    expect(error!.issues[3].source).toBeUndefined();
+    expect(error!.message).toContain("database.user: is required");
+  });
+
+  it("should bind with zod and joi style validators", () => {
+    const config = new Config(mockResponse);
+
+    const zodLike = {
+      safeParse: (value: unknown) =>
+        (value as { host?: string }).host === "dev-host"
+          ? { success: true as const, data: { host: "dev-host" } }
+          : { success: false as const, error: { issues: [{ path: ["host"], message: "Invalid" }] } },
+    };
+    const joiLike = {
+      validate: () => ({ value: undefined, error: { details: [{ path: ["port"], message: '"port" must be a number' }] } }),
+    };
+
+    expect(config.bind(fromZod(zodLike), "database")).toEqual({ host: "dev-host" });
+    expect(() => config.bind(fromZod(zodLike), "app")).toThrow(ConfigValidationError);
+    expect(() => config.bind(fromJoi(joiLike), "database")).toThrow(/database\.port/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createClient, MemoryConfigCache } from "../src";
+import type { ConfigLogger, ConfigSpan } from "../src";
+import { buildResponse, errorResponse, mockFetch, okResponse } from "./fixtures";
+
+const versionResponse = (version: string) => okResponse(buildResponse({}, { version }));
+const createLogger = () =>
+  ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }) satisfies ConfigLogger;
+
+describe("Observability", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should log request events with redacted credentials", async () => {
+    mockFetch.mockResolvedValueOnce(versionResponse("v1"));
+    const logger = createLogger();
+
+    await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      auth: { apiKey: "super-secret" },
+      headers: { "X-Team": "platform" },
+      logger,
+    }).load();
+
+    expect(logger.debug).toHaveBeenCalledWith("request.start", {
+      url: "http://localhost:8000/my-app/default/main",
+      method: "GET",
+      headers: { "X-Team": "platform", "X-API-Key": "***" },
+    });
+    expect(logger.debug).toHaveBeenCalledWith("request.end", expect.objectContaining({ status: 200 }));
+    expect(logger.info).toHaveBeenCalledWith("load.end", expect.objectContaining({ version: "v1", result: "success" }));
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain("super-secret");
+  });
+
+  it("should log retries, failures, cache fallbacks and version changes", async () => {
+    const logger = createLogger();
+    const client = createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { maxRetries: 1, retryDelay: 1 },
+      cache: { store: new MemoryConfigCache() },
+      logger,
+    });
+
+    mockFetch.mockResolvedValueOnce(versionResponse("v1"));
+    await client.load();
+    mockFetch.mockResolvedValueOnce(versionResponse("v2"));
+    await client.load();
+    expect(logger.info).toHaveBeenCalledWith("load.version_change", { previous: "v1", version: "v2" });
+
+    mockFetch.mockRejectedValue(new Error("ECONNREFUSED"));
+    const config = await client.load();
+
+    expect(config.stale).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith("request.retry", expect.objectContaining({ attempt: 1, delay: 1 }));
+    expect(logger.error).toHaveBeenCalledWith("request.failure", expect.objectContaining({ attempts: 2 }));
+    expect(logger.warn).toHaveBeenCalledWith(
+      "load.cache_fallback",
+      expect.objectContaining({ cachedAt: expect.any(Number) })
+    );
+  });
+
+  it("should record metrics", async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(503, "Unavailable"))
+      .mockResolvedValueOnce(versionResponse("v1"));
+    const metrics = { increment: vi.fn(), observe: vi.fn() };
+
+    await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      retry: { retryDelay: 1 },
+      metrics,
+    }).load();
+
+    expect(metrics.increment).toHaveBeenCalledWith("config_client.requests", 1, { status: "503" });
+    expect(metrics.increment).toHaveBeenCalledWith("config_client.retries", 1, undefined);
+    expect(metrics.increment).toHaveBeenCalledWith("config_client.loads", 1, { result: "success" });
+    expect(metrics.observe).toHaveBeenCalledWith("config_client.load.duration", expect.any(Number), {
+      result: "success",
+    });
+  });
+
+  it("should create spans and record failures without secrets", async () => {
+    mockFetch.mockResolvedValue(errorResponse(404, "Not Found super-secret"));
+    const spans: { name: string; attributes: Record<string, unknown>; span: ConfigSpan }[] = [];
+    const tracer = {
+      startSpan: (name: string, options?: { attributes?: Record<string, string | number | boolean> }) => {
+        const span = { setAttribute: vi.fn(), recordException: vi.fn(), setStatus: vi.fn(), end: vi.fn() };
+        spans.push({ name, attributes: options?.attributes ?? {}, span });
+        return span;
+      },
+    };
+
+    await expect(
+      createClient({
+        endpoint: "http://localhost:8000",
+        application: "my-app",
+        auth: { bearer: "super-secret" },
+        tracer,
+      }).load()
+    ).rejects.toThrow();
+
+    expect(spans.map((item) => item.name)).toEqual(["config-client.load", "config-client.fetch"]);
+    expect(spans[1].attributes).toEqual({ "http.request.method": "GET", "url.path": "/my-app/default/main" });
+
+    const fetchSpan = spans[1].span as unknown as Record<string, ReturnType<typeof vi.fn>>;
+    expect(fetchSpan.setAttribute).toHaveBeenCalledWith("http.response.status_code", 404);
+    expect(fetchSpan.setStatus).toHaveBeenCalledWith({ code: 2, message: expect.not.stringContaining("super-secret") });
+    expect(fetchSpan.end).toHaveBeenCalled();
+  });
+});
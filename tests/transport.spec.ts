@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { createClient, createNodeTransport, ConfigClientError, ConfigTimeoutError } from "../src";
+import { buildResponse, mockFetch, okResponse } from "./fixtures";
+
+const mockResponse = buildResponse({ "server.port": 8080 });
+
+describe("Transport and interceptors", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should send every request through the injected transport", async () => {
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: "token", expires_in: 60 })))
+      .mockResolvedValueOnce(okResponse(mockResponse));
+
+    const config = await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      transport,
+      auth: { oauth2: { tokenUrl: "http://auth/token", clientId: "id", clientSecret: "secret" } },
+    }).load();
+
+    expect(config.get("server.port")).toBe(8080);
+    expect(transport.mock.calls.map((call) => call[0])).toEqual([
+      "http://auth/token",
+      "http://localhost:8000/my-app/default/main",
+    ]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should let interceptors rewrite requests and observe responses", async () => {
+    const transport = vi.fn().mockResolvedValue(okResponse(mockResponse));
+    const seen: string[] = [];
+
+    await createClient({
+      endpoint: "http://localhost:8000",
+      application: "my-app",
+      transport,
+      interceptors: {
+        request: [
+          (request) => ({ ...request, headers: { ...request.headers, "X-Request-Id": "abc" } }),
+          (request) => {
+            seen.push(`${request.method} ${request.url} ${request.headers["X-Request-Id"]}`);
+          },
+        ],
+        response: [
+          (response, request) => {
+            seen.push(`${response.status} ${request.url}`);
+          },
+        ],
+      },
+    }).load();
+
+    expect(transport.mock.calls[0][1].headers["X-Request-Id"]).toBe("abc");
+    expect(seen).toEqual([
+      "GET http://localhost:8000/my-app/default/main abc",
+      "200 http://localhost:8000/my-app/default/main",
+    ]);
+  });
+
+  it("should reject combining transport and tls", () => {
+    expect(() =>
+      createClient({ endpoint: "http://localhost:8000", application: "my-app", transport: vi.fn(), tls: {} })
+    ).toThrow(ConfigClientError);
+  });
+});
+
+describe("createNodeTransport", () => {
+  let server: Server;
+  let endpoint: string;
+
+  beforeEach(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/slow/default/main") return; // never answers
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("X-Auth", String(req.headers["x-api-key"]));
+      res.end(JSON.stringify(mockResponse));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should load config over node:http", async () => {
+    let authHeader: string | null = null;
+    const client = createClient({
+      endpoint,
+      application: "my-app",
+      transport: createNodeTransport(),
+      auth: { apiKey: "key" },
+      interceptors: {
+        response: [
+          (response) => {
+            authHeader = response.headers.get("X-Auth");
+          },
+        ],
+      },
+    });
+
+    expect((await client.load()).get("server.port")).toBe(8080);
+    expect(authHeader).toBe("key");
+  });
+
+  it("should abort on timeout", async () => {
+    const client = createClient({
+      endpoint,
+      application: "slow",
+      transport: createNodeTransport(),
+      timeout: 50,
+      retry: { maxRetries: 0 },
+    });
+
+    await expect(client.load()).rejects.toThrow(ConfigTimeoutError);
+  });
+});
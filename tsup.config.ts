@@ -1,14 +1,27 @@
 import { defineConfig } from "tsup";
 
-export default defineConfig({
-  entry: ["src/index.ts"],
-  format: ["cjs", "esm"],
-  dts: true,
-  clean: true,
-  sourcemap: true,
-  minify: false,
-  target: "es2022",
-  outDir: "dist",
-  splitting: false,
-  treeshake: true,
-});
+export default defineConfig([
+  {
+    entry: ["src/index.ts"],
+    format: ["cjs", "esm"],
+    dts: true,
+    clean: true,
+    sourcemap: true,
+    minify: false,
+    target: "es2022",
+    outDir: "dist",
+    splitting: false,
+    treeshake: true,
+  },
+  {
+    // command line tool (the shebang of src/bin.ts is kept and the output made executable)
+    entry: { cli: "src/bin.ts" },
+    format: ["esm"],
+    sourcemap: true,
+    minify: false,
+    target: "es2022",
+    outDir: "dist",
+    splitting: false,
+    treeshake: true,
+  },
+]);